@@ -1,198 +1,444 @@
-import { useState, useEffect, useRef } from 'react'
+import { useState, useEffect, useRef, useMemo } from 'react'
 import { useKV } from '@github/spark/hooks'
 import { Card } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
-import { Badge } from '@/components/ui/badge'
 import { Progress } from '@/components/ui/progress'
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
-import { ScrollArea } from '@/components/ui/scroll-area'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
-import { Check, X, ArrowClockwise, Lightning, Target, ClockCounterClockwise } from '@phosphor-icons/react'
+import { Check, X, ArrowClockwise, Lightning, Target, Cards, Lightbulb, Calculator } from '@phosphor-icons/react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { toast } from 'sonner'
+import { UnitSetting } from '@/lib/trig'
+import {
+  PracticeQuestion,
+  PracticeMode,
+  GradeResult,
+  generatePracticeQuestion,
+  gradeAnswer,
+  getCanonicalAnswer,
+  formatPracticeQuestion,
+  matchesPracticeOptions,
+  isAngleAnswer,
+} from '@/lib/questions'
+import { generateChoices } from '@/lib/choices'
+import { getWorkedSolution } from '@/lib/composite'
+import { ExpressionError } from '@/lib/expression'
+import { Settings, InputMode, DEFAULT_SETTINGS, resolveSettings, getPracticeOptions, changeGrading } from '@/lib/settings'
+import { Stats, HistoryEntry, HistoryRollup, EMPTY_STATS, EMPTY_ROLLUP, recordStats, removeFromStats, createEntryId, applyRetention } from '@/lib/history'
+import { Backup, ImportStrategy, importBackup } from '@/lib/backup'
+import { migrateStorage } from '@/lib/migrations'
+import {
+  ProfileState,
+  PROFILES_KEY,
+  DEFAULT_PROFILE_STATE,
+  getProfileKey,
+  getActiveProfile,
+  addProfile,
+  renameProfile,
+  removeProfile,
+  deleteProfileData,
+  PROFILE_DATA_LABELS,
+} from '@/lib/profiles'
+import { KeypadKey, insertText, deleteBackward } from '@/lib/keypad'
+import { generateSeed } from '@/lib/random'
+import { Activity, recordActivity, removeActivity, buildActivity, mergeActivity, getDayKey, isGoalMet, computeDayStreak } from '@/lib/daily'
+import { Achievement, Unlocks, findNewAchievements, addUnlocks } from '@/lib/achievements'
+import { parseChallengeUrl, removeChallengeParams } from '@/lib/links'
+import { Schedule, reviewCard, getDueCount } from '@/lib/scheduler'
+import {
+  ChallengeMode,
+  ChallengeRun,
+  Leaderboard,
+  EMPTY_LEADERBOARD,
+  startChallenge,
+  recordChallengeAnswer,
+  endChallenge,
+  isTimeUp,
+  toLeaderboardEntry,
+  addToLeaderboard,
+} from '@/lib/challenges'
+import {
+  QuizConfig,
+  QuizSession,
+  createSeededQuiz,
+  createQuizFromQuestions,
+  createQuizFromLink,
+  recordQuizAnswer,
+  getCurrentQuestion,
+  summarizeQuiz,
+  archiveSession,
+} from '@/lib/quiz'
+import { ChallengeStatus } from '@/components/ChallengeStatus'
+import { ChallengesDialog } from '@/components/ChallengesDialog'
+import { ChallengeSummary } from '@/components/ChallengeSummary'
+import { AnalyticsDialog } from '@/components/AnalyticsDialog'
+import { HistoryDialog } from '@/components/HistoryDialog'
+import { TriangleFigure } from '@/components/TriangleFigure'
+import { TrophyShelfDialog } from '@/components/TrophyShelfDialog'
+import { AchievementAnnouncement } from '@/components/AchievementAnnouncement'
+import { UnitCircleHint } from '@/components/UnitCircleHint'
+import { QuizSetupDialog } from '@/components/QuizSetupDialog'
+import { QuizStatus } from '@/components/QuizStatus'
+import { QuizReportDialog } from '@/components/QuizReportDialog'
+import { SessionArchiveDialog } from '@/components/SessionArchiveDialog'
+import { SettingsDialog } from '@/components/SettingsDialog'
+import { BackupDialog } from '@/components/BackupDialog'
+import { MathKeypad } from '@/components/MathKeypad'
+import { ExpressionPreview } from '@/components/ExpressionPreview'
+import { WorksheetDialog } from '@/components/WorksheetDialog'
+import { ProfileSwitcher, ProfileSwitcherProps } from '@/components/ProfileSwitcher'
+import { DailyGoalCard } from '@/components/DailyGoalCard'
+import { WorkedSolution } from '@/components/WorkedSolution'
 
-type TrigFunction = 'sin' | 'cos' | 'tan'
-type Angle = 30 | 45 | 60
+const CHALLENGE_NEXT_QUESTION_DELAY_MS = 400
+const DEFERRED_NEXT_QUESTION_DELAY_MS = 300
 
-interface Question {
-  func: TrigFunction
-  angle: Angle
+// Number keys pick a choice only when nothing else on the page wants them:
+// not while typing, and not inside an open dialog, which renders in a portal
+// but still sends its key events to the window.
+function isChoiceShortcut(e: KeyboardEvent): boolean {
+  if (e.ctrlKey || e.metaKey || e.altKey || e.repeat) return false
+  const target = e.target
+  if (!(target instanceof HTMLElement)) return true
+  if (target.isContentEditable) return false
+  if (target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return false
+  return !target.closest('[role="dialog"]')
 }
 
-interface Stats {
-  correct: number
-  total: number
-  currentStreak: number
-  bestStreak: number
+function getAnswerPrompt(question: PracticeQuestion): string {
+  if (isAngleAnswer(question)) return 'Enter the angle'
+  if (question.kind === 'triangle') return 'Enter the length'
+  if (question.kind === 'composite') return 'Simplify to an exact value'
+  return 'Enter the value'
 }
 
-interface HistoryEntry {
-  question: Question
-  userAnswer: string
-  correctAnswer: string
-  isCorrect: boolean
-  timestamp: number
+interface TrainerProps {
+  profileId: string
+  profileControls: Omit<ProfileSwitcherProps, 'disabled'>
 }
 
-const CORRECT_ANSWERS: Record<string, string[]> = {
-  'sin-30': ['1/2', '0.5', '.5'],
-  'sin-45': ['√2/2', '0.707', '0.7071', '1/√2', 'sqrt(2)/2'],
-  'sin-60': ['√3/2', '0.866', '0.8660', 'sqrt(3)/2'],
-  'cos-30': ['√3/2', '0.866', '0.8660', 'sqrt(3)/2'],
-  'cos-45': ['√2/2', '0.707', '0.7071', '1/√2', 'sqrt(2)/2'],
-  'cos-60': ['1/2', '0.5', '.5'],
-  'tan-30': ['√3/3', '0.577', '0.5773', '1/√3', 'sqrt(3)/3'],
-  'tan-45': ['1', '1.0'],
-  'tan-60': ['√3', '1.732', '1.7320', 'sqrt(3)'],
-}
-
-const DROPDOWN_OPTIONS = [
-  { value: '1/2', label: '1/2' },
-  { value: '√2/2', label: '√2/2' },
-  { value: '√3/2', label: '√3/2' },
-  { value: '√3/3', label: '√3/3' },
-  { value: '1', label: '1' },
-  { value: '√3', label: '√3' },
-]
-
-function generateQuestion(previousQuestion?: Question): Question {
-  const functions: TrigFunction[] = ['sin', 'cos', 'tan']
-  const angles: Angle[] = [30, 45, 60]
-  
-  let newQuestion: Question
-  do {
-    newQuestion = {
-      func: functions[Math.floor(Math.random() * functions.length)],
-      angle: angles[Math.floor(Math.random() * angles.length)]
-    }
-  } while (
-    previousQuestion && 
-    newQuestion.func === previousQuestion.func && 
-    newQuestion.angle === previousQuestion.angle
-  )
-  
-  return newQuestion
-}
-
-function checkAnswer(question: Question, userAnswer: string): boolean {
-  const key = `${question.func}-${question.angle}`
-  const correctAnswers = CORRECT_ANSWERS[key]
-  const normalized = userAnswer.trim().toLowerCase().replace(/\s/g, '')
-  
-  return correctAnswers.some(correct => {
-    const normalizedCorrect = correct.toLowerCase().replace(/\s/g, '')
-    if (normalized === normalizedCorrect) return true
-    
-    const evaluateExpression = (expr: string): number => {
-      if (expr.includes('/')) {
-        const [num, denom] = expr.split('/')
-        const numerator = parseFloat(num)
-        const denominator = parseFloat(denom)
-        if (!isNaN(numerator) && !isNaN(denominator) && denominator !== 0) {
-          return numerator / denominator
-        }
-      }
-      return parseFloat(expr)
-    }
-    
-    const userNum = evaluateExpression(normalized)
-    const correctNum = evaluateExpression(normalizedCorrect)
-    if (!isNaN(userNum) && !isNaN(correctNum)) {
-      return Math.abs(userNum - correctNum) < 0.001
-    }
-    
-    return false
-  })
-}
-
-function App() {
-  const [stats, setStats] = useKV<Stats>('trig-stats', {
-    correct: 0,
-    total: 0,
-    currentStreak: 0,
-    bestStreak: 0
-  })
+function Trainer({ profileId, profileControls }: TrainerProps) {
+  const [stats, setStats] = useKV<Stats>(getProfileKey(profileId, 'trig-stats'), EMPTY_STATS)
   
-  const [history, setHistory] = useKV<HistoryEntry[]>('trig-history', [])
+  const [history, setHistory] = useKV<HistoryEntry[]>(getProfileKey(profileId, 'trig-history'), [])
+  const [rollup, setRollup] = useKV<HistoryRollup>(getProfileKey(profileId, 'trig-history-rollup'), EMPTY_ROLLUP)
+  const [settings, setSettings] = useKV<Settings>(getProfileKey(profileId, 'trig-settings'), DEFAULT_SETTINGS)
+  const [schedule, setSchedule] = useKV<Schedule>(getProfileKey(profileId, 'trig-schedule'), {})
+  const [leaderboard, setLeaderboard] = useKV<Leaderboard>(getProfileKey(profileId, 'trig-leaderboard'), EMPTY_LEADERBOARD)
+  const [sessions, setSessions] = useKV<QuizSession[]>(getProfileKey(profileId, 'trig-sessions'), [])
+  const [activity, setActivity] = useKV<Activity>(getProfileKey(profileId, 'trig-activity'), {})
+  const [unlocks, setUnlocks] = useKV<Unlocks>(getProfileKey(profileId, 'trig-achievements'), {})
+  const currentSettings = resolveSettings(settings)
+  const unitSetting = currentSettings.unit
+  const gradingPolicy = currentSettings.grading
+  const practiceMode = currentSettings.mode
+  const dailyGoal = currentSettings.dailyGoal
+  const practiceOptions = getPracticeOptions(currentSettings)
   
-  const [question, setQuestion] = useState<Question>(generateQuestion())
+  const [question, setQuestion] = useState<PracticeQuestion>(generatePracticeQuestion())
+  const choices = useMemo(() => generateChoices(question), [question])
   const [userAnswer, setUserAnswer] = useState('')
-  const [inputMode, setInputMode] = useState<'type' | 'select'>('select')
+  const [inputModeOverride, setInputMode] = useState<InputMode | null>(null)
+  const inputMode = inputModeOverride ?? currentSettings.inputMode
   const [feedback, setFeedback] = useState<'correct' | 'incorrect' | null>(null)
+  const [explanation, setExplanation] = useState<string | null>(null)
   const [isSubmitting, setIsSubmitting] = useState(false)
-  const [showHint, setShowHint] = useState(false)
+  const [showFormats, setShowFormats] = useState(false)
+  const [showKeypad, setShowKeypad] = useState(true)
+  const [hintUsed, setHintUsed] = useState(false)
+  const [hintOpen, setHintOpen] = useState(false)
+  const [challenge, setChallenge] = useState<ChallengeRun | null>(null)
+  const [finishedRun, setFinishedRun] = useState<ChallengeRun | null>(null)
+  const [now, setNow] = useState(Date.now())
+  const [quiz, setQuiz] = useState<QuizSession | null>(null)
+  const [reportSession, setReportSession] = useState<QuizSession | null>(null)
+  const [announcements, setAnnouncements] = useState<Achievement[]>([])
+  const [pendingNext, setPendingNext] = useState<(() => void) | null>(null)
+  const deferFeedback = quiz?.config.deferFeedback ?? false
   const inputRef = useRef<HTMLInputElement>(null)
+  const questionShownAt = useRef(Date.now())
   
   useEffect(() => {
     inputRef.current?.focus()
+    questionShownAt.current = Date.now()
+    setHintUsed(false)
+    setHintOpen(false)
   }, [question])
   
-  const handleSubmit = async () => {
-    if (!userAnswer.trim() || isSubmitting) return
+  // Quiz questions keep the unit they were generated with, so a challenge
+  // replays exactly the shared sequence even when settings load late.
+  useEffect(() => {
+    if (unitSetting !== 'mixed' && !isSubmitting && !quiz) {
+      setQuestion((current) => current.unit === unitSetting ? current : { ...current, unit: unitSetting })
+    }
+  }, [unitSetting, quiz])
+  
+  useEffect(() => {
+    if (!matchesPracticeOptions(question, practiceOptions) && !isSubmitting && !quiz) {
+      setQuestion(generatePracticeQuestion(question, { ...practiceOptions, schedule }))
+      setUserAnswer('')
+    }
+  }, [practiceMode, settings?.functions, settings?.angles])
+  
+  // Opening a challenge link starts its quiz straight away.
+  useEffect(() => {
+    const link = parseChallengeUrl(window.location.href)
+    window.history.replaceState(null, '', removeChallengeParams(window.location.href))
+    if (!link) return
+    startQuiz(createQuizFromLink(link))
+    toast('Challenge accepted', {
+      description: link.score === undefined
+        ? `${link.length} questions, same as your friend`
+        : `${link.length} questions. Score to beat: ${link.score}`
+    })
+  }, [])
+  
+  useEffect(() => {
+    if (!challenge) return
+    const interval = setInterval(() => setNow(Date.now()), 100)
+    return () => clearInterval(interval)
+  }, [challenge])
+  
+  useEffect(() => {
+    if (challenge && isTimeUp(challenge, now)) {
+      finishChallenge(endChallenge(challenge, now))
+    }
+  }, [challenge, now])
+  
+  const updateSettings = (changes: Partial<Settings>) => {
+    setSettings((current) => ({ ...DEFAULT_SETTINGS, ...current, ...changes }))
+    if (changes.inputMode) {
+      setInputMode(null)
+    }
+    if (changes.historyLimit) {
+      saveHistory(history || [], changes.historyLimit)
+    }
+  }
+  
+  // Answers beyond the retention limit are rolled up rather than dropped.
+  const saveHistory = (
+    entries: HistoryEntry[],
+    limit: number = currentSettings.historyLimit,
+    base: HistoryRollup = rollup ?? EMPTY_ROLLUP
+  ) => {
+    const retained = applyRetention(entries, base, limit)
+    setHistory(retained.history)
+    if (retained.rollup !== rollup) {
+      setRollup(retained.rollup)
+    }
+  }
+  
+  const handleGradingChange = (value: string) => {
+    if (value === 'exact') {
+      updateSettings(changeGrading(currentSettings, false))
+      return
+    }
+    const significantFigures = Number(value)
+    updateSettings({ grading: { mode: 'decimal', significantFigures }, significantFigures })
+  }
+  
+  const handleSubmit = async (answer: string = userAnswer) => {
+    if (!answer.trim() || isSubmitting) return
     
+    setUserAnswer(answer)
+    let result: GradeResult
+    try {
+      result = gradeAnswer(question, answer, gradingPolicy)
+    } catch (error) {
+      if (error instanceof ExpressionError) {
+        toast.error("Couldn't read that answer", {
+          description: error.message
+        })
+        return
+      }
+      throw error
+    }
+    
+    const { isCorrect } = result
     setIsSubmitting(true)
-    const isCorrect = checkAnswer(question, userAnswer)
-    setFeedback(isCorrect ? 'correct' : 'incorrect')
+    if (!deferFeedback) {
+      setFeedback(isCorrect ? 'correct' : 'incorrect')
+      setExplanation(result.explanation ?? null)
+    }
+    
+    const correctAnswer = getCanonicalAnswer(question)
+    const updatedSchedule = reviewCard(schedule || {}, question, !isCorrect ? 'wrong' : hintUsed ? 'hinted' : 'correct')
+    setSchedule(updatedSchedule)
     
-    const key = `${question.func}-${question.angle}`
-    const correctAnswer = CORRECT_ANSWERS[key][0]
+    if (challenge) {
+      const updatedRun = recordChallengeAnswer(challenge, isCorrect)
+      if (updatedRun.endedAt) {
+        finishChallenge(updatedRun)
+      } else {
+        setChallenge(updatedRun)
+      }
+    }
     
-    setHistory((currentHistory) => [
-      {
+    const answeredAt = Date.now()
+    const durationMs = answeredAt - questionShownAt.current
+    let updatedQuiz: QuizSession | null = null
+    if (quiz) {
+      updatedQuiz = recordQuizAnswer(quiz, {
         question: { ...question },
-        userAnswer: userAnswer.trim(),
+        userAnswer: answer.trim(),
         correctAnswer,
         isCorrect,
-        timestamp: Date.now()
-      },
-      ...(currentHistory || [])
-    ])
+        durationMs
+      }, answeredAt)
+      setQuiz(updatedQuiz)
+    }
     
-    setStats((current) => {
-      if (!current) {
-        return {
-          correct: isCorrect ? 1 : 0,
-          total: 1,
-          currentStreak: isCorrect ? 1 : 0,
-          bestStreak: isCorrect ? 1 : 0
-        }
-      }
-      
-      const newTotal = current.total + 1
-      const newCorrect = isCorrect ? current.correct + 1 : current.correct
-      const newStreak = isCorrect ? current.currentStreak + 1 : 0
-      const newBestStreak = Math.max(current.bestStreak, newStreak)
-      
-      return {
-        correct: newCorrect,
-        total: newTotal,
-        currentStreak: newStreak,
-        bestStreak: newBestStreak
-      }
-    })
+    const entry: HistoryEntry = {
+      id: createEntryId(answeredAt),
+      question: { ...question },
+      userAnswer: answer.trim(),
+      correctAnswer,
+      isCorrect,
+      timestamp: answeredAt,
+      durationMs,
+      mistake: result.mistake,
+      usedHint: hintUsed || undefined
+    }
+    saveHistory([entry, ...(history || [])])
     
-    if (isCorrect) {
-      toast.success('Correct!', {
-        description: `${question.func}(${question.angle}°) = ${userAnswer}`
-      })
-    } else {
-      toast.error('Not quite', {
-        description: `The answer is ${correctAnswer}`
+    const today = getDayKey(answeredAt)
+    const updatedActivity = recordActivity(activity || {}, answeredAt, isCorrect, dailyGoal)
+    setActivity((current) => recordActivity(current || {}, answeredAt, isCorrect, dailyGoal))
+    if (!isGoalMet(activity?.[today], dailyGoal) && isGoalMet(updatedActivity[today], dailyGoal) && !deferFeedback) {
+      toast.success('Daily goal reached!', {
+        description: `${dailyGoal} correct today. Come back tomorrow to keep your streak.`
       })
     }
     
-    setTimeout(() => {
-      setQuestion(generateQuestion(question))
+    setStats((current) => recordStats(current ?? EMPTY_STATS, isCorrect, hintUsed))
+    
+    const unlocked = findNewAchievements({
+      stats: recordStats(stats ?? EMPTY_STATS, isCorrect, hintUsed),
+      history: [entry, ...(history || [])],
+      schedule: updatedSchedule,
+      dayStreak: computeDayStreak(updatedActivity, dailyGoal).current,
+      finishedQuiz: updatedQuiz?.finishedAt ? updatedQuiz : undefined
+    }, unlocks || {})
+    if (unlocked.length > 0) {
+      setUnlocks((current) => addUnlocks(current || {}, unlocked, answeredAt))
+      setAnnouncements((current) => [...current, ...unlocked])
+    }
+    
+    if (!challenge && !deferFeedback) {
+      if (isCorrect) {
+        toast.success('Correct!', {
+          description: `${formatPracticeQuestion(question)} = ${answer}`
+        })
+      } else {
+        toast.error('Not quite', {
+          description: result.explanation ?? `The answer is ${correctAnswer}`
+        })
+      }
+    }
+    
+    const delay = challenge
+      ? CHALLENGE_NEXT_QUESTION_DELAY_MS
+      : deferFeedback ? DEFERRED_NEXT_QUESTION_DELAY_MS : currentSettings.nextQuestionDelayMs
+    const advance = () => {
+      if (updatedQuiz?.finishedAt) {
+        finishQuiz(updatedQuiz)
+      }
+      const nextQuizQuestion = updatedQuiz && getCurrentQuestion(updatedQuiz)
+      setQuestion(nextQuizQuestion ?? generatePracticeQuestion(question, { ...practiceOptions, schedule: updatedSchedule }))
       setUserAnswer('')
       setFeedback(null)
+      setExplanation(null)
       setIsSubmitting(false)
-      setShowHint(false)
-    }, 1500)
+      setShowFormats(false)
+      setPendingNext(null)
+    }
+    // A worked solution stays up until the learner has read it.
+    if (!isCorrect && question.kind === 'composite' && !challenge && !deferFeedback) {
+      setPendingNext(() => advance)
+    } else {
+      setTimeout(advance, delay)
+    }
+  }
+  
+  const finishChallenge = (run: ChallengeRun) => {
+    setChallenge(null)
+    setFinishedRun(run)
+    setLeaderboard((current) => addToLeaderboard({ ...EMPTY_LEADERBOARD, ...current }, run.mode, toLeaderboardEntry(run)))
+  }
+  
+  const handleStartChallenge = (mode: ChallengeMode) => {
+    setFinishedRun(null)
+    setQuestion(generatePracticeQuestion(question, { ...practiceOptions, schedule }))
+    setUserAnswer('')
+    setFeedback(null)
+    setExplanation(null)
+    setIsSubmitting(false)
+    setPendingNext(null)
+    setNow(Date.now())
+    setChallenge(startChallenge(mode))
+  }
+  
+  const startQuiz = (session: QuizSession) => {
+    setReportSession(null)
+    setFinishedRun(null)
+    setQuiz(session)
+    setQuestion(session.questions[0])
+    setUserAnswer('')
+    setFeedback(null)
+    setExplanation(null)
+    setIsSubmitting(false)
+    setPendingNext(null)
+  }
+  
+  const handleStartQuiz = (config: QuizConfig) => {
+    startQuiz(createSeededQuiz(config, unitSetting, generateSeed()))
+  }
+  
+  const handleRetryMissed = (session: QuizSession) => {
+    const missed = summarizeQuiz(session).missed.map((answer) => answer.question)
+    startQuiz(createQuizFromQuestions(session.config, missed))
+  }
+  
+  // Quitting early still archives whatever was answered so far.
+  const finishQuiz = (session: QuizSession) => {
+    const finished = { ...session, finishedAt: session.finishedAt ?? Date.now() }
+    setQuiz(null)
+    if (finished.answers.length > 0) {
+      setSessions((current) => archiveSession(current || [], finished))
+      setReportSession(finished)
+    }
+  }
+  
+  const handleImport = (backup: Backup, strategy: ImportStrategy) => {
+    const imported = importBackup(backup, {
+      stats: stats ?? EMPTY_STATS,
+      history: history || [],
+      rollup: rollup ?? EMPTY_ROLLUP
+    }, strategy)
+    setStats(imported.stats)
+    saveHistory(imported.history, currentSettings.historyLimit, imported.rollup)
+    setActivity((current) => strategy === 'replace'
+      ? buildActivity(imported.history)
+      : mergeActivity(current || {}, buildActivity(imported.history)))
+    toast.success(strategy === 'replace' ? 'History replaced' : 'History merged', {
+      description: `${Math.min(imported.history.length, currentSettings.historyLimit)} answers in your history`
+    })
+  }
+  
+  // The answer also comes out of the totals and the day it was given on.
+  const handleDeleteEntry = (id: string) => {
+    const entry = (history || []).find((item) => item.id === id)
+    if (!entry) return
+    setHistory((current) => (current || []).filter((item) => item.id !== id))
+    setStats((current) => removeFromStats(current ?? EMPTY_STATS, entry, history || []))
+    setActivity((current) => removeActivity(current || {}, entry.timestamp, entry.isCorrect))
+    toast.success('Answer deleted', {
+      description: 'It no longer counts towards your totals or daily goal'
+    })
   }
   
   const handleReset = () => {
-    const newQuestion = generateQuestion(question)
+    const newQuestion = generatePracticeQuestion(question, { ...practiceOptions, schedule })
     setStats({
       correct: 0,
       total: 0,
@@ -200,14 +446,54 @@ function App() {
       bestStreak: stats?.bestStreak || 0
     })
     setHistory([])
+    setRollup(EMPTY_ROLLUP)
     setQuestion(newQuestion)
     setUserAnswer('')
     setFeedback(null)
+    setExplanation(null)
+    setIsSubmitting(false)
+    setPendingNext(null)
     toast.success('Stats reset!', {
       description: 'Starting fresh practice session'
     })
   }
   
+  // The listener outlives renders, so it submits through a ref to the latest
+  // handler rather than the one from when it was added.
+  const submitRef = useRef(handleSubmit)
+  submitRef.current = handleSubmit
+  
+  useEffect(() => {
+    if (inputMode !== 'select') return
+    const handleChoiceKey = (e: KeyboardEvent) => {
+      if (!isChoiceShortcut(e)) return
+      const index = Number(e.key) - 1
+      if (Number.isInteger(index) && index >= 0 && index < choices.length) {
+        submitRef.current(choices[index].value)
+      }
+    }
+    window.addEventListener('keydown', handleChoiceKey)
+    return () => window.removeEventListener('keydown', handleChoiceKey)
+  }, [inputMode, choices])
+  
+  // Keypad keys edit at the caret, like typing would.
+  const handleKeypadKey = (key: KeypadKey) => {
+    if (key.action === 'submit') {
+      handleSubmit()
+      return
+    }
+    const start = inputRef.current?.selectionStart ?? userAnswer.length
+    const end = inputRef.current?.selectionEnd ?? userAnswer.length
+    const edit = key.action === 'backspace'
+      ? deleteBackward(userAnswer, start, end)
+      : insertText(userAnswer, start, end, key.insert ?? '')
+    setUserAnswer(edit.value)
+    requestAnimationFrame(() => {
+      inputRef.current?.focus()
+      inputRef.current?.setSelectionRange(edit.caret, edit.caret)
+    })
+  }
+  
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !isSubmitting) {
       handleSubmit()
@@ -215,6 +501,8 @@ function App() {
   }
   
   const accuracy = (stats?.total || 0) > 0 ? Math.round(((stats?.correct || 0) / (stats?.total || 0)) * 100) : 0
+  const dueCount = getDueCount(schedule || {})
+  const seenCount = Object.keys(schedule || {}).length
   
   return (
     <div className="min-h-screen bg-background px-4 py-8 sm:py-12">
@@ -227,12 +515,13 @@ function App() {
           <h1 className="text-3xl sm:text-4xl font-bold text-foreground mb-2">
             Trig Master
           </h1>
-          <p className="text-muted-foreground">
-            Master sine, cosine, and tangent values
+          <p className="text-muted-foreground mb-4">
+            Master sine, cosine, tangent and their reciprocals
           </p>
+          <ProfileSwitcher {...profileControls} disabled={quiz !== null || challenge !== null} />
         </motion.div>
         
-        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-8">
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-8">
           <Card className="p-4 flex flex-col items-center gap-2 bg-card border-2">
             <div className="flex items-center gap-2 text-muted-foreground">
               <Target size={20} weight="duotone" />
@@ -268,11 +557,74 @@ function App() {
               correct answers
             </div>
           </Card>
+          
+          <Card className="p-4 flex flex-col items-center gap-2 bg-card border-2">
+            <div className="flex items-center gap-2 text-muted-foreground">
+              <Cards size={20} weight="duotone" />
+              <span className="text-sm font-medium">Due</span>
+            </div>
+            <div className="text-3xl font-bold text-primary">
+              {dueCount}
+            </div>
+            <div className="text-xs text-muted-foreground">
+              of {seenCount} cards seen
+            </div>
+          </Card>
+        </div>
+        
+        <div className="flex flex-wrap justify-center gap-x-6 gap-y-2 mb-4">
+          <div className="flex flex-wrap justify-center gap-1">
+            {([['values', 'Values'], ['inverse', 'Inverse'], ['triangles', 'Triangles'], ['expressions', 'Expressions'], ['mixed', 'Mixed']] as [PracticeMode, string][]).map(([mode, label]) => (
+              <Button
+                key={mode}
+                type="button"
+                variant={practiceMode === mode ? 'secondary' : 'ghost'}
+                size="sm"
+                onClick={() => updateSettings({ mode })}
+                disabled={quiz !== null}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+          <div className="flex gap-1">
+            {(['degrees', 'radians', 'mixed'] as UnitSetting[]).map((unit) => (
+              <Button
+                key={unit}
+                type="button"
+                variant={unitSetting === unit ? 'secondary' : 'ghost'}
+                size="sm"
+                onClick={() => updateSettings({ unit })}
+                disabled={quiz !== null}
+                className="capitalize"
+              >
+                {unit}
+              </Button>
+            ))}
+          </div>
         </div>
         
+        <DailyGoalCard activity={activity || {}} goal={dailyGoal} />
+        
+        {challenge && (
+          <ChallengeStatus
+            run={challenge}
+            now={now}
+            onEnd={() => finishChallenge(endChallenge(challenge))}
+          />
+        )}
+        
+        {quiz && (
+          <QuizStatus
+            session={quiz}
+            onQuit={() => finishQuiz(quiz)}
+            disabled={isSubmitting}
+          />
+        )}
+        
         <AnimatePresence mode="wait">
           <motion.div
-            key={`${question.func}-${question.angle}`}
+            key={`${question.kind ?? 'value'}-${question.func}-${question.angle}-${question.unit}`}
             initial={{ opacity: 0, scale: 0.95 }}
             animate={{ opacity: 1, scale: 1 }}
             exit={{ opacity: 0, scale: 0.95 }}
@@ -307,9 +659,18 @@ function App() {
               </AnimatePresence>
               
               <div className="text-center mb-8">
-                <div className="text-5xl sm:text-6xl font-semibold text-foreground mb-4">
-                  {question.func}({question.angle}°) = ?
-                </div>
+                {question.kind === 'triangle' ? (
+                  <div className="mb-4 space-y-3">
+                    <TriangleFigure question={question} />
+                    <div className="text-xl sm:text-2xl font-semibold text-foreground first-letter:uppercase">
+                      {formatPracticeQuestion(question)}
+                    </div>
+                  </div>
+                ) : (
+                  <div className={`${question.kind === 'composite' ? 'text-3xl sm:text-4xl' : 'text-5xl sm:text-6xl'} font-semibold text-foreground mb-4`}>
+                    {formatPracticeQuestion(question)} = ?
+                  </div>
+                )}
                 <AnimatePresence>
                   {feedback === 'incorrect' && (
                     <motion.div
@@ -319,13 +680,24 @@ function App() {
                       className="mt-4"
                     >
                       <p className="text-destructive font-medium text-lg">
-                        Correct answer: {CORRECT_ANSWERS[`${question.func}-${question.angle}`][0]}
+                        Correct answer: {getCanonicalAnswer(question)}
                       </p>
+                      {explanation && (
+                        <p className="text-sm text-muted-foreground mt-2">
+                          {explanation}
+                        </p>
+                      )}
+                      {question.kind === 'composite' && (
+                        <WorkedSolution
+                          steps={getWorkedSolution(question)}
+                          onContinue={pendingNext ?? undefined}
+                        />
+                      )}
                     </motion.div>
                   )}
                   {!feedback && (
                     <p className="text-muted-foreground">
-                      Enter the value
+                      {getAnswerPrompt(question)}
                     </p>
                   )}
                 </AnimatePresence>
@@ -363,74 +735,96 @@ function App() {
                 </div>
 
                 {inputMode === 'select' ? (
-                  <Select
-                    value={userAnswer}
-                    onValueChange={setUserAnswer}
-                    disabled={isSubmitting}
-                  >
-                    <SelectTrigger className="text-center text-2xl sm:text-3xl h-16 font-medium">
-                      <SelectValue placeholder="Choose a value..." />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {DROPDOWN_OPTIONS.map((option) => (
-                        <SelectItem 
-                          key={option.value} 
-                          value={option.value}
-                          className="text-xl font-medium cursor-pointer"
-                        >
-                          {option.label}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    {choices.map((choice, index) => (
+                      <Button
+                        key={choice.value}
+                        type="button"
+                        variant={userAnswer === choice.value ? 'default' : 'outline'}
+                        onClick={() => handleSubmit(choice.value)}
+                        disabled={isSubmitting}
+                        className="h-14 justify-start gap-3 text-xl font-medium"
+                      >
+                        <kbd className="rounded border px-1.5 text-xs text-muted-foreground">{index + 1}</kbd>
+                        {choice.label}
+                      </Button>
+                    ))}
+                  </div>
                 ) : (
-                  <div className="relative">
-                    <Input
-                      ref={inputRef}
-                      type="text"
-                      value={userAnswer}
-                      onChange={(e) => setUserAnswer(e.target.value)}
-                      onKeyPress={handleKeyPress}
-                      placeholder="e.g., 0.5 or 1/2"
-                      className="text-center text-2xl sm:text-3xl h-16 font-medium pr-16"
-                      disabled={isSubmitting}
-                    />
-                    <Button
-                      type="button"
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => {
-                        setUserAnswer(prev => prev + '√')
-                        inputRef.current?.focus()
-                      }}
-                      disabled={isSubmitting}
-                      className="absolute right-2 top-1/2 -translate-y-1/2 h-10 w-10 p-0 text-xl font-bold hover:bg-accent hover:text-accent-foreground"
-                      title="Insert radical sign"
-                    >
-                      √
-                    </Button>
+                  <div className="space-y-3">
+                    <div className="relative">
+                      <Input
+                        ref={inputRef}
+                        type="text"
+                        // With the keypad open, touch devices should not raise their own keyboard.
+                        inputMode={showKeypad ? 'none' : 'text'}
+                        value={userAnswer}
+                        onChange={(e) => setUserAnswer(e.target.value)}
+                        onKeyPress={handleKeyPress}
+                        placeholder={isAngleAnswer(question) ? 'e.g., 30° or π/6' : question.kind === 'triangle' ? 'e.g., 5√3 or 8.66' : 'e.g., 0.5 or 1/2'}
+                        className="text-center text-2xl sm:text-3xl h-16 font-medium pr-16"
+                        disabled={isSubmitting}
+                      />
+                      <Button
+                        type="button"
+                        variant={showKeypad ? 'secondary' : 'ghost'}
+                        size="sm"
+                        onClick={() => setShowKeypad(!showKeypad)}
+                        className="absolute right-2 top-1/2 -translate-y-1/2 h-10 w-10 p-0"
+                        title={showKeypad ? 'Hide keypad' : 'Show keypad'}
+                        aria-pressed={showKeypad}
+                      >
+                        <Calculator size={22} />
+                      </Button>
+                    </div>
+                    <ExpressionPreview input={userAnswer} question={question} />
+                    {showKeypad && (
+                      <MathKeypad
+                        kind={isAngleAnswer(question) ? 'inverse' : 'value'}
+                        onKey={handleKeypadKey}
+                        disabled={isSubmitting}
+                      />
+                    )}
                   </div>
                 )}
                 
-                <Button
-                  onClick={handleSubmit}
-                  disabled={!userAnswer.trim() || isSubmitting}
-                  className="w-full h-12 text-lg font-semibold"
-                  size="lg"
+                {inputMode === 'type' ? (
+                  <Button
+                    onClick={() => handleSubmit()}
+                    disabled={!userAnswer.trim() || isSubmitting}
+                    className="w-full h-12 text-lg font-semibold"
+                    size="lg"
+                  >
+                    {isSubmitting ? 'Checking...' : 'Submit Answer'}
+                  </Button>
+                ) : (
+                  <p className="text-center text-xs text-muted-foreground">
+                    Click a choice or press 1–{choices.length} to answer
+                  </p>
+                )}
+                
+                <button
+                  onClick={() => {
+                    setHintOpen(!hintOpen)
+                    setHintUsed(true)
+                  }}
+                  disabled={isSubmitting}
+                  className="w-full flex items-center justify-center gap-1 text-sm text-muted-foreground hover:text-foreground transition-colors"
                 >
-                  {isSubmitting ? 'Checking...' : 'Submit Answer'}
-                </Button>
+                  <Lightbulb size={16} />
+                  {hintOpen ? 'Hide unit circle' : hintUsed ? 'Show unit circle again' : 'Show unit circle hint (pauses your streak)'}
+                </button>
                 
                 {inputMode === 'type' && (
                   <button
-                    onClick={() => setShowHint(!showHint)}
+                    onClick={() => setShowFormats(!showFormats)}
                     className="w-full text-sm text-muted-foreground hover:text-foreground transition-colors"
                   >
-                    {showHint ? 'Hide hint' : 'Show accepted formats'}
+                    {showFormats ? 'Hide formats' : 'Show accepted formats'}
                   </button>
                 )}
                 
-                {inputMode === 'type' && showHint && (
+                {inputMode === 'type' && showFormats && (
                   <motion.div
                     initial={{ opacity: 0, height: 0 }}
                     animate={{ opacity: 1, height: 'auto' }}
@@ -438,8 +832,28 @@ function App() {
                   >
                     <p>You can use:</p>
                     <p>Decimals: 0.5, 0.707, 0.866</p>
-                    <p>Fractions: 1/2</p>
-                    <p>Radicals: √2/2, √3/2, √3</p>
+                    <p>Fractions: 1/2, 2/(2√2)</p>
+                    <p>Radicals: √2/2, √(3)/2, sqrt(3), 3^(1/2)</p>
+                    <p>Negatives: -1/2, -√3/2</p>
+                    <p>Undefined: undefined, DNE, ∞</p>
+                    <p>Angles: 30, 30°, -45°, π/6, pi/6</p>
+                    <div className="flex items-center justify-center gap-2 pt-2">
+                      <span>Grading:</span>
+                      <Select
+                        value={gradingPolicy.mode === 'exact' ? 'exact' : String(gradingPolicy.significantFigures)}
+                        onValueChange={handleGradingChange}
+                      >
+                        <SelectTrigger className="h-8 w-auto">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="exact">Exact form only</SelectItem>
+                          <SelectItem value="2">Decimals to 2 s.f.</SelectItem>
+                          <SelectItem value="3">Decimals to 3 s.f.</SelectItem>
+                          <SelectItem value="4">Decimals to 4 s.f.</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
                   </motion.div>
                 )}
               </div>
@@ -447,101 +861,65 @@ function App() {
           </motion.div>
         </AnimatePresence>
         
-        <div className="mt-6 flex justify-center gap-4">
-          <Dialog>
-            <DialogTrigger asChild>
-              <Button
-                variant="outline"
-                className="gap-2"
-              >
-                <ClockCounterClockwise size={18} />
-                Answer History
-                {(history?.length || 0) > 0 && (
-                  <Badge variant="secondary" className="ml-1">
-                    {history?.length}
-                  </Badge>
-                )}
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="max-w-2xl max-h-[80vh]">
-              <DialogHeader>
-                <DialogTitle>Answer History</DialogTitle>
-              </DialogHeader>
-              <ScrollArea className="h-[60vh] pr-4">
-                {(!history || history.length === 0) ? (
-                  <div className="text-center py-12 text-muted-foreground">
-                    <ClockCounterClockwise size={48} className="mx-auto mb-4 opacity-50" />
-                    <p>No answers yet</p>
-                    <p className="text-sm mt-1">Start practicing to see your history</p>
-                  </div>
-                ) : (
-                  <div className="space-y-3">
-                    {history.map((entry, index) => (
-                      <motion.div
-                        key={entry.timestamp}
-                        initial={{ opacity: 0, y: -10 }}
-                        animate={{ opacity: 1, y: 0 }}
-                        transition={{ delay: index * 0.03 }}
-                      >
-                        <Card className={`p-4 border-2 ${
-                          entry.isCorrect 
-                            ? 'border-accent/30 bg-accent/5' 
-                            : 'border-destructive/30 bg-destructive/5'
-                        }`}>
-                          <div className="flex items-start justify-between gap-4">
-                            <div className="flex-1">
-                              <div className="flex items-center gap-3 mb-2">
-                                <div className={`rounded-full p-1.5 ${
-                                  entry.isCorrect ? 'bg-accent/20' : 'bg-destructive/20'
-                                }`}>
-                                  {entry.isCorrect ? (
-                                    <Check size={20} weight="bold" className="text-accent" />
-                                  ) : (
-                                    <X size={20} weight="bold" className="text-destructive" />
-                                  )}
-                                </div>
-                                <div className="text-lg font-semibold">
-                                  {entry.question.func}({entry.question.angle}°)
-                                </div>
-                                <Badge variant={entry.isCorrect ? "default" : "destructive"}>
-                                  {entry.isCorrect ? 'Correct' : 'Wrong'}
-                                </Badge>
-                              </div>
-                              <div className="ml-11 space-y-1 text-sm">
-                                <div className="flex gap-2">
-                                  <span className="text-muted-foreground">Your answer:</span>
-                                  <span className={`font-medium ${
-                                    entry.isCorrect ? 'text-accent' : 'text-destructive'
-                                  }`}>
-                                    {entry.userAnswer}
-                                  </span>
-                                </div>
-                                {!entry.isCorrect && (
-                                  <div className="flex gap-2">
-                                    <span className="text-muted-foreground">Correct answer:</span>
-                                    <span className="font-medium text-accent">
-                                      {entry.correctAnswer}
-                                    </span>
-                                  </div>
-                                )}
-                              </div>
-                            </div>
-                            <div className="text-xs text-muted-foreground whitespace-nowrap">
-                              {new Date(entry.timestamp).toLocaleTimeString()}
-                            </div>
-                          </div>
-                        </Card>
-                      </motion.div>
-                    ))}
-                  </div>
-                )}
-              </ScrollArea>
-            </DialogContent>
-          </Dialog>
+        <AnimatePresence>
+          {hintOpen && (
+            <motion.div
+              initial={{ opacity: 0, height: 0 }}
+              animate={{ opacity: 1, height: 'auto' }}
+              exit={{ opacity: 0, height: 0 }}
+              className="mt-4 overflow-hidden"
+            >
+              <UnitCircleHint question={question} />
+            </motion.div>
+          )}
+        </AnimatePresence>
+        
+        <div className="mt-6 flex flex-wrap justify-center gap-4">
+          <HistoryDialog
+            history={history || []}
+            rollup={rollup ?? EMPTY_ROLLUP}
+            onDelete={handleDeleteEntry}
+          />
+          
+          <TrophyShelfDialog unlocks={unlocks || {}} />
+          
+          <AnalyticsDialog history={history || []} rollup={rollup ?? EMPTY_ROLLUP} />
+          
+          <ChallengesDialog
+            leaderboard={{ ...EMPTY_LEADERBOARD, ...leaderboard }}
+            onStart={handleStartChallenge}
+            disabled={challenge !== null || quiz !== null}
+          />
+          
+          <QuizSetupDialog
+            onStart={handleStartQuiz}
+            disabled={challenge !== null || quiz !== null}
+          />
+          
+          <SessionArchiveDialog
+            sessions={sessions || []}
+            onOpenSession={setReportSession}
+          />
+          
+          <WorksheetDialog unit={unitSetting} />
+          
+          <BackupDialog
+            stats={stats ?? EMPTY_STATS}
+            history={history || []}
+            rollup={rollup ?? EMPTY_ROLLUP}
+            onImport={handleImport}
+          />
+          
+          <SettingsDialog
+            settings={currentSettings}
+            onChange={updateSettings}
+            disabled={quiz !== null}
+          />
           
           <Button
             variant="outline"
             onClick={handleReset}
+            disabled={quiz !== null}
             className="gap-2"
           >
             <ArrowClockwise size={18} />
@@ -549,6 +927,24 @@ function App() {
           </Button>
         </div>
         
+        <ChallengeSummary
+          run={finishedRun}
+          leaderboard={{ ...EMPTY_LEADERBOARD, ...leaderboard }}
+          onClose={() => setFinishedRun(null)}
+          onRetry={handleStartChallenge}
+        />
+        
+        <QuizReportDialog
+          session={reportSession}
+          onClose={() => setReportSession(null)}
+          onRetryMissed={handleRetryMissed}
+        />
+        
+        <AchievementAnnouncement
+          achievement={announcements[0] ?? null}
+          onDone={() => setAnnouncements((current) => current.slice(1))}
+        />
+        
         {(stats?.total || 0) === 0 && (
           <motion.div
             initial={{ opacity: 0 }}
@@ -564,6 +960,8 @@ function App() {
                 <p>sin(30°) = cos(60°) = 1/2</p>
                 <p>sin(45°) = cos(45°) = √2/2 ≈ 0.707</p>
                 <p>sin(60°) = cos(30°) = √3/2 ≈ 0.866</p>
+                <p>csc = 1/sin, sec = 1/cos, cot = 1/tan</p>
+                <p>Other quadrants: use the reference angle, then the sign (All Students Take Calculus)</p>
               </div>
             </Card>
           </motion.div>
@@ -573,4 +971,66 @@ function App() {
   )
 }
 
+interface ProfilesProps {
+  initialState: ProfileState
+}
+
+// Switching profiles remounts the trainer, so no state leaks between learners.
+function Profiles({ initialState }: ProfilesProps) {
+  const [profileState, setProfileState] = useKV<ProfileState>(PROFILES_KEY, initialState)
+  const state = profileState ?? initialState
+  const activeProfile = getActiveProfile(state)
+  
+  const updateProfiles = (update: (current: ProfileState) => ProfileState) => {
+    setProfileState((current) => update(current ?? DEFAULT_PROFILE_STATE))
+  }
+  
+  // The profile stays listed until all of its data is gone, so a failed
+  // delete can be retried rather than leaving orphaned keys behind.
+  const handleDelete = (id: string) => {
+    const name = state.profiles.find((p) => p.id === id)?.name ?? 'profile'
+    deleteProfileData(spark.kv, id).then((remaining) => {
+      if (remaining.length === 0) {
+        updateProfiles((current) => removeProfile(current, id))
+        toast.success(`Deleted ${name}`)
+        return
+      }
+      toast.error(`Couldn't fully delete ${name}`, {
+        description: `Their ${remaining.map((key) => PROFILE_DATA_LABELS[key]).join(', ')} could not be removed; the rest was deleted. Try again to finish.`
+      })
+    })
+  }
+  
+  return (
+    <Trainer
+      key={activeProfile.id}
+      profileId={activeProfile.id}
+      profileControls={{
+        state: { ...state, activeId: activeProfile.id },
+        onSwitch: (id) => updateProfiles((current) => ({ ...current, activeId: id })),
+        onCreate: (name) => updateProfiles((current) => addProfile(current, name)),
+        onRename: (id, name) => updateProfiles((current) => renameProfile(current, id, name)),
+        onDelete: handleDelete
+      }}
+    />
+  )
+}
+
+// Stored data is brought up to the current schema before anything reads it.
+// The active profile is read up front so the first trainer mounted is the
+// right learner's.
+function App() {
+  const [profiles, setProfiles] = useState<ProfileState | null>(null)
+  
+  useEffect(() => {
+    migrateStorage(spark.kv)
+      .then(() => spark.kv.get<ProfileState>(PROFILES_KEY))
+      .catch(() => undefined)
+      .then((stored) => setProfiles(stored ?? DEFAULT_PROFILE_STATE))
+  }, [])
+  
+  if (!profiles) return null
+  return <Profiles initialState={profiles} />
+}
+
 export default App
@@ -0,0 +1,54 @@
+import { useEffect } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { Achievement } from '@/lib/achievements'
+
+const ANNOUNCEMENT_MS = 3500
+
+interface AchievementAnnouncementProps {
+  achievement: Achievement | null
+  onDone: () => void
+}
+
+// Shows one unlock at a time; the caller queues the rest.
+export function AchievementAnnouncement({ achievement, onDone }: AchievementAnnouncementProps) {
+  useEffect(() => {
+    if (!achievement) return
+    const timeout = setTimeout(onDone, ANNOUNCEMENT_MS)
+    return () => clearTimeout(timeout)
+  }, [achievement])
+
+  return (
+    <div className="pointer-events-none fixed inset-x-0 top-6 z-50 flex justify-center px-4">
+      <AnimatePresence mode="wait">
+        {achievement && (
+          <motion.div
+            key={achievement.id}
+            initial={{ opacity: 0, y: -40, scale: 0.8 }}
+            animate={{ opacity: 1, y: 0, scale: 1 }}
+            exit={{ opacity: 0, y: -20, scale: 0.9 }}
+            transition={{ type: 'spring', stiffness: 260, damping: 20 }}
+            className="pointer-events-auto flex items-center gap-4 rounded-xl border-2 border-accent bg-card px-5 py-3 shadow-lg"
+            role="status"
+            onClick={onDone}
+          >
+            <motion.span
+              initial={{ rotate: -30, scale: 0 }}
+              animate={{ rotate: 0, scale: 1 }}
+              transition={{ delay: 0.15, type: 'spring', stiffness: 300 }}
+              className="text-4xl"
+            >
+              {achievement.emoji}
+            </motion.span>
+            <div>
+              <div className="text-xs font-semibold uppercase tracking-wide text-accent">
+                Achievement unlocked
+              </div>
+              <div className="font-bold text-foreground">{achievement.title}</div>
+              <div className="text-sm text-muted-foreground">{achievement.description}</div>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  )
+}
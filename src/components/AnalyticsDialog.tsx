@@ -0,0 +1,153 @@
+import { useMemo } from 'react'
+import { Card } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { ChartBar } from '@phosphor-icons/react'
+import { HistoryEntry, HistoryRollup } from '@/lib/history'
+import { CardSummary, buildHeatmap, summarizeSessions, getMostMissed } from '@/lib/analytics'
+import { getCardKey } from '@/lib/scheduler'
+import { formatAngle } from '@/lib/trig'
+import { formatPracticeQuestion } from '@/lib/questions'
+
+const TREND_SESSIONS = 12
+
+interface AnalyticsDialogProps {
+  history: HistoryEntry[]
+  rollup: HistoryRollup
+}
+
+function formatSeconds(ms: number | null): string {
+  return ms === null ? '–' : `${(ms / 1000).toFixed(1)}s`
+}
+
+function cellClass(card: CardSummary | undefined): string {
+  if (!card) return 'bg-muted/40 text-muted-foreground'
+  if (card.accuracy < 0.5) return 'bg-destructive/60 text-destructive-foreground'
+  if (card.accuracy < 0.8) return 'bg-destructive/25'
+  if (card.accuracy < 0.95) return 'bg-primary/25'
+  return 'bg-primary/60 text-primary-foreground'
+}
+
+export function AnalyticsDialog({ history, rollup }: AnalyticsDialogProps) {
+  const heatmap = useMemo(() => buildHeatmap(history, rollup), [history, rollup])
+  const sessions = useMemo(() => summarizeSessions(history).slice(-TREND_SESSIONS), [history])
+  const mostMissed = useMemo(() => getMostMissed(history, rollup), [history, rollup])
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <ChartBar size={18} />
+          Analytics
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[85vh]">
+        <DialogHeader>
+          <DialogTitle>Analytics</DialogTitle>
+        </DialogHeader>
+        <ScrollArea className="h-[70vh] pr-4">
+          {history.length === 0 && rollup.attempts === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <ChartBar size={48} className="mx-auto mb-4 opacity-50" />
+              <p>Nothing to analyse yet</p>
+              <p className="text-sm mt-1">Answer a few questions to see your strengths and weak spots</p>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <section>
+                <h3 className="font-semibold mb-1">Mastery by card</h3>
+                <p className="text-xs text-muted-foreground mb-3">
+                  Accuracy and median response time for each function and angle
+                  {rollup.attempts > 0 && `, including ${rollup.attempts} older answers kept as totals only`}
+                </p>
+                <div className="overflow-x-auto">
+                  <table className="text-xs border-separate border-spacing-1">
+                    <thead>
+                      <tr>
+                        <th />
+                        {heatmap.angles.map((angle) => (
+                          <th key={angle} className="font-medium text-muted-foreground px-1">
+                            {formatAngle(angle)}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {heatmap.functions.map((func) => (
+                        <tr key={func}>
+                          <th className="text-right font-medium pr-2">{func}</th>
+                          {heatmap.angles.map((angle) => {
+                            const card = heatmap.cells[getCardKey({ func, angle })]
+                            return (
+                              <td
+                                key={angle}
+                                className={`rounded-md px-1.5 py-1 text-center min-w-12 ${cellClass(card)}`}
+                                title={card
+                                  ? `${formatPracticeQuestion(card.question)}: ${card.correct}/${card.attempts} correct, median ${formatSeconds(card.medianMs)}`
+                                  : undefined}
+                              >
+                                {card ? (
+                                  <>
+                                    <div className="font-semibold">{Math.round(card.accuracy * 100)}%</div>
+                                    <div className="opacity-80">{formatSeconds(card.medianMs)}</div>
+                                  </>
+                                ) : '·'}
+                              </td>
+                            )
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </section>
+
+              <section>
+                <h3 className="font-semibold mb-1">Accuracy by session</h3>
+                <p className="text-xs text-muted-foreground mb-3">
+                  Your last {sessions.length} {sessions.length === 1 ? 'session' : 'sessions'}, oldest first
+                </p>
+                <div className="flex items-end gap-2 h-32">
+                  {sessions.map((session) => (
+                    <div
+                      key={session.start}
+                      className="flex-1 flex flex-col items-center justify-end h-full gap-1"
+                      title={`${new Date(session.start).toLocaleString()}: ${session.correct}/${session.attempts} correct`}
+                    >
+                      <span className="text-[10px] text-muted-foreground">
+                        {Math.round(session.accuracy * 100)}%
+                      </span>
+                      <div
+                        className="w-full rounded-t-md bg-primary/70"
+                        style={{ height: `${Math.max(session.accuracy * 100, 2)}%` }}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </section>
+
+              <section>
+                <h3 className="font-semibold mb-3">Most missed</h3>
+                {mostMissed.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No misses yet. Nice work!</p>
+                ) : (
+                  <div className="space-y-2">
+                    {mostMissed.map((card) => (
+                      <Card key={card.key} className="p-3 flex items-center justify-between border-2 border-destructive/30 bg-destructive/5">
+                        <span className="font-semibold">{formatPracticeQuestion(card.question)}</span>
+                        <span className="text-sm text-muted-foreground">
+                          missed {card.misses} of {card.attempts} · median {formatSeconds(card.medianMs)}
+                        </span>
+                      </Card>
+                    ))}
+                  </div>
+                )}
+              </section>
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  )
+}
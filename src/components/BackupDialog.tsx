@@ -0,0 +1,143 @@
+import { useState, useRef } from 'react'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { DownloadSimple, UploadSimple, FloppyDisk } from '@phosphor-icons/react'
+import { toast } from 'sonner'
+import { Stats, HistoryEntry, HistoryRollup } from '@/lib/history'
+import { Backup, BackupError, ImportStrategy, createBackup, exportJson, exportCsv, parseBackup } from '@/lib/backup'
+
+function downloadFile(filename: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+interface BackupDialogProps {
+  stats: Stats
+  history: HistoryEntry[]
+  rollup: HistoryRollup
+  onImport: (backup: Backup, strategy: ImportStrategy) => void
+}
+
+export function BackupDialog({ stats, history, rollup, onImport }: BackupDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [pending, setPending] = useState<Backup | null>(null)
+  const [strategy, setStrategy] = useState<ImportStrategy>('merge')
+  const fileRef = useRef<HTMLInputElement>(null)
+  const date = new Date().toISOString().slice(0, 10)
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    try {
+      setPending(parseBackup(await file.text()))
+    } catch (error) {
+      toast.error("Couldn't import that file", {
+        description: error instanceof BackupError ? error.message : 'Could not read file'
+      })
+    } finally {
+      if (fileRef.current) fileRef.current.value = ''
+    }
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        setOpen(isOpen)
+        setPending(null)
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <FloppyDisk size={18} />
+          Backup
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Backup &amp; Restore</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-6">
+          <section className="space-y-2">
+            <Label>Export {history.length} answers</Label>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                className="flex-1 gap-2"
+                onClick={() => downloadFile(`trig-master-${date}.json`, exportJson(createBackup({ stats, history, rollup })), 'application/json')}
+              >
+                <DownloadSimple size={16} />
+                JSON
+              </Button>
+              <Button
+                variant="outline"
+                className="flex-1 gap-2"
+                disabled={history.length === 0}
+                onClick={() => downloadFile(`trig-master-history-${date}.csv`, exportCsv(history), 'text/csv')}
+              >
+                <DownloadSimple size={16} />
+                CSV
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              JSON keeps everything and can be imported again. CSV has one row per answer for spreadsheets.
+            </p>
+          </section>
+
+          <section className="space-y-2">
+            <Label>Import a JSON backup</Label>
+            <input
+              ref={fileRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+            {pending ? (
+              <div className="space-y-3 rounded-md border-2 p-3">
+                <p className="text-sm">
+                  {pending.history.length} answers exported {new Date(pending.exportedAt).toLocaleString()}
+                </p>
+                <Select value={strategy} onValueChange={(value) => setStrategy(value as ImportStrategy)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="merge">Merge with my history</SelectItem>
+                    <SelectItem value="replace">Replace my stats and history</SelectItem>
+                  </SelectContent>
+                </Select>
+                <div className="flex gap-2">
+                  <Button variant="ghost" className="flex-1" onClick={() => setPending(null)}>
+                    Cancel
+                  </Button>
+                  <Button
+                    variant={strategy === 'replace' ? 'destructive' : 'default'}
+                    className="flex-1"
+                    onClick={() => {
+                      onImport(pending, strategy)
+                      setPending(null)
+                      setOpen(false)
+                    }}
+                  >
+                    Import
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <Button variant="outline" className="w-full gap-2" onClick={() => fileRef.current?.click()}>
+                <UploadSimple size={16} />
+                Choose file
+              </Button>
+            )}
+          </section>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
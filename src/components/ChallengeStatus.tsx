@@ -0,0 +1,73 @@
+import { Card } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
+import { Timer, Heart, Flag } from '@phosphor-icons/react'
+import {
+  ChallengeRun,
+  CHALLENGES,
+  SPRINT_DURATION_MS,
+  SURVIVAL_LIVES,
+  TARGET_CORRECT,
+  getRemainingMs,
+  getElapsedMs,
+  formatDuration,
+} from '@/lib/challenges'
+
+interface ChallengeStatusProps {
+  run: ChallengeRun
+  now: number
+  onEnd: () => void
+}
+
+export function ChallengeStatus({ run, now, onEnd }: ChallengeStatusProps) {
+  const remaining = getRemainingMs(run, now)
+
+  return (
+    <Card className="p-4 mb-4 border-2 border-primary/40 bg-primary/5">
+      <div className="flex items-center justify-between gap-4 mb-2">
+        <div className="font-semibold">{CHALLENGES[run.mode].label}</div>
+        <div className="flex items-center gap-4">
+          {run.mode === 'sprint' && (
+            <div className={`flex items-center gap-1 text-2xl font-bold tabular-nums ${
+              remaining <= 10000 ? 'text-destructive' : 'text-primary'
+            }`}>
+              <Timer size={22} weight="duotone" />
+              {Math.ceil(remaining / 1000)}s
+            </div>
+          )}
+          {run.mode === 'survival' && (
+            <div className="flex items-center gap-1" aria-label={`${run.lives} lives left`}>
+              {Array.from({ length: SURVIVAL_LIVES }, (_, index) => (
+                <Heart
+                  key={index}
+                  size={22}
+                  weight={index < run.lives ? 'fill' : 'regular'}
+                  className={index < run.lives ? 'text-destructive' : 'text-muted-foreground'}
+                />
+              ))}
+            </div>
+          )}
+          {run.mode === 'target' && (
+            <div className="flex items-center gap-1 text-2xl font-bold tabular-nums text-primary">
+              <Flag size={22} weight="duotone" />
+              {formatDuration(getElapsedMs(run, now))}
+            </div>
+          )}
+          <Button variant="ghost" size="sm" onClick={onEnd}>
+            End run
+          </Button>
+        </div>
+      </div>
+      {run.mode === 'sprint' && (
+        <Progress value={(remaining / SPRINT_DURATION_MS) * 100} className="h-2" />
+      )}
+      {run.mode === 'target' && (
+        <Progress value={(run.correct / TARGET_CORRECT) * 100} className="h-2" />
+      )}
+      <div className="text-xs text-muted-foreground mt-2">
+        {run.correct} correct of {run.answered} answered
+        {run.mode === 'target' && ` · ${TARGET_CORRECT - run.correct} to go`}
+      </div>
+    </Card>
+  )
+}
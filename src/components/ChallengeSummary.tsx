@@ -0,0 +1,77 @@
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { LeaderboardTable } from '@/components/ChallengesDialog'
+import {
+  ChallengeMode,
+  ChallengeRun,
+  Leaderboard,
+  CHALLENGES,
+  TARGET_CORRECT,
+  toLeaderboardEntry,
+  getRank,
+  formatDuration,
+} from '@/lib/challenges'
+
+interface ChallengeSummaryProps {
+  run: ChallengeRun | null
+  leaderboard: Leaderboard
+  onClose: () => void
+  onRetry: (mode: ChallengeMode) => void
+}
+
+function describeResult(run: ChallengeRun, durationMs: number, completed: boolean): string {
+  switch (run.mode) {
+    case 'sprint':
+      return completed
+        ? `${run.correct} correct in 60 seconds`
+        : `Stopped early with ${run.correct} correct`
+    case 'survival':
+      return `${run.correct} correct before running out of lives`
+    case 'target':
+      return completed
+        ? `${TARGET_CORRECT} correct in ${formatDuration(durationMs)}`
+        : `Stopped at ${run.correct} of ${TARGET_CORRECT} correct`
+  }
+}
+
+export function ChallengeSummary({ run, leaderboard, onClose, onRetry }: ChallengeSummaryProps) {
+  const entry = run ? toLeaderboardEntry(run) : null
+  const rank = run && entry ? getRank(leaderboard, run.mode, entry) : null
+  const accuracy = run && run.answered > 0 ? Math.round((run.correct / run.answered) * 100) : 0
+
+  return (
+    <Dialog open={run !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        {run && entry && (
+          <>
+            <DialogHeader>
+              <DialogTitle>{CHALLENGES[run.mode].label} finished</DialogTitle>
+            </DialogHeader>
+            <div className="text-center space-y-1 py-2">
+              <div className="text-2xl font-bold text-primary">
+                {describeResult(run, entry.durationMs, entry.completed)}
+              </div>
+              <div className="text-sm text-muted-foreground">
+                {run.answered} answered · {accuracy}% accuracy · {formatDuration(entry.durationMs)}
+              </div>
+              {rank !== null && (
+                <div className="text-sm font-medium text-accent">
+                  {rank === 1 ? 'New personal best!' : `#${rank} on your leaderboard`}
+                </div>
+              )}
+            </div>
+            <LeaderboardTable mode={run.mode} entries={leaderboard[run.mode] ?? []} highlight={entry.timestamp} />
+            <div className="flex gap-2 pt-2">
+              <Button variant="outline" className="flex-1" onClick={onClose}>
+                Back to practice
+              </Button>
+              <Button className="flex-1" onClick={() => onRetry(run.mode)}>
+                Play again
+              </Button>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
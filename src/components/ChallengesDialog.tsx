@@ -0,0 +1,109 @@
+import { useState } from 'react'
+import { Card } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Trophy, Play } from '@phosphor-icons/react'
+import {
+  ChallengeMode,
+  Leaderboard,
+  LeaderboardEntry,
+  CHALLENGES,
+  CHALLENGE_MODES,
+  formatDuration,
+} from '@/lib/challenges'
+
+interface LeaderboardTableProps {
+  mode: ChallengeMode
+  entries: LeaderboardEntry[]
+  highlight?: number
+}
+
+export function LeaderboardTable({ mode, entries, highlight }: LeaderboardTableProps) {
+  if (entries.length === 0) {
+    return (
+      <p className="text-center text-sm text-muted-foreground py-6">
+        No finished runs yet
+      </p>
+    )
+  }
+
+  return (
+    <ol className="space-y-1">
+      {entries.map((entry, index) => (
+        <li
+          key={`${entry.timestamp}-${index}`}
+          className={`flex items-center justify-between rounded-md px-3 py-2 text-sm ${
+            entry.timestamp === highlight ? 'bg-accent/20 font-semibold' : 'bg-muted/50'
+          }`}
+        >
+          <span className="w-6 text-muted-foreground">{index + 1}.</span>
+          <span className="flex-1 font-medium">
+            {mode === 'target' ? formatDuration(entry.durationMs) : `${entry.correct} correct`}
+          </span>
+          <span className="text-muted-foreground">
+            {mode === 'target'
+              ? `${entry.answered} answered`
+              : `${entry.answered} answered · ${formatDuration(entry.durationMs)}`}
+          </span>
+          <span className="ml-4 text-xs text-muted-foreground">
+            {new Date(entry.timestamp).toLocaleDateString()}
+          </span>
+        </li>
+      ))}
+    </ol>
+  )
+}
+
+interface ChallengesDialogProps {
+  leaderboard: Leaderboard
+  onStart: (mode: ChallengeMode) => void
+  disabled?: boolean
+}
+
+export function ChallengesDialog({ leaderboard, onStart, disabled }: ChallengesDialogProps) {
+  const [open, setOpen] = useState(false)
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2" disabled={disabled}>
+          <Trophy size={18} />
+          Challenges
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Challenges</DialogTitle>
+        </DialogHeader>
+        <Tabs defaultValue="sprint">
+          <TabsList className="w-full">
+            {CHALLENGE_MODES.map((mode) => (
+              <TabsTrigger key={mode} value={mode} className="flex-1">
+                {CHALLENGES[mode].label}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+          {CHALLENGE_MODES.map((mode) => (
+            <TabsContent key={mode} value={mode} className="space-y-4">
+              <Card className="p-4 flex items-center justify-between gap-4 border-2">
+                <p className="text-sm text-muted-foreground">{CHALLENGES[mode].description}</p>
+                <Button
+                  className="gap-2"
+                  onClick={() => {
+                    setOpen(false)
+                    onStart(mode)
+                  }}
+                >
+                  <Play size={16} weight="fill" />
+                  Start
+                </Button>
+              </Card>
+              <LeaderboardTable mode={mode} entries={leaderboard[mode] ?? []} />
+            </TabsContent>
+          ))}
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,113 @@
+import { useMemo } from 'react'
+import { Card } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+import { Flame, Snowflake, CalendarBlank } from '@phosphor-icons/react'
+import { Activity, DayStreak, computeDayStreak, getCalendarWeeks, getDayKey, isGoalMet, parseDayKey } from '@/lib/daily'
+
+const CALENDAR_WEEKS = 18
+const WEEKDAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S']
+
+interface ActivityCalendarProps {
+  activity: Activity
+  goal: number
+  streak: DayStreak
+}
+
+function ActivityCalendar({ activity, goal, streak }: ActivityCalendarProps) {
+  const weeks = useMemo(() => getCalendarWeeks(CALENDAR_WEEKS), [])
+  const today = getDayKey(Date.now())
+
+  const cellClass = (day: string): string => {
+    if (day > today) return 'bg-transparent'
+    if (streak.frozenDays.includes(day)) return 'bg-sky-400/60'
+    const entry = activity[day]
+    if (!entry) return 'bg-muted'
+    if (isGoalMet(entry, goal)) return 'bg-primary'
+    return entry.correct > 0 ? 'bg-primary/35' : 'bg-primary/15'
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-1 overflow-x-auto pb-1">
+        <div className="flex flex-col gap-1 pr-1 text-[10px] text-muted-foreground">
+          {WEEKDAY_LABELS.map((label, index) => (
+            <span key={index} className="h-4 leading-4">{label}</span>
+          ))}
+        </div>
+        {weeks.map((week) => (
+          <div key={week[0]} className="flex flex-col gap-1">
+            {week.map((day) => (
+              <div
+                key={day}
+                title={`${parseDayKey(day).toLocaleDateString()}: ${activity[day]?.correct ?? 0} correct`}
+                className={`h-4 w-4 rounded-sm ${cellClass(day)} ${day === today ? 'ring-2 ring-accent' : ''}`}
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1"><span className="h-3 w-3 rounded-sm bg-primary/35" /> practised</span>
+        <span className="flex items-center gap-1"><span className="h-3 w-3 rounded-sm bg-primary" /> goal met</span>
+        <span className="flex items-center gap-1"><span className="h-3 w-3 rounded-sm bg-sky-400/60" /> freeze used</span>
+      </div>
+    </div>
+  )
+}
+
+interface DailyGoalCardProps {
+  activity: Activity
+  goal: number
+}
+
+export function DailyGoalCard({ activity, goal }: DailyGoalCardProps) {
+  const streak = useMemo(() => computeDayStreak(activity, goal), [activity, goal])
+
+  return (
+    <Card className="p-4 mb-4 bg-card border-2">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex-1">
+          <div className="flex items-center justify-between text-sm mb-1">
+            <span className="font-medium">
+              {streak.todayMet ? 'Daily goal reached' : "Today's goal"}
+            </span>
+            <span className="text-muted-foreground tabular-nums">
+              {Math.min(streak.todayCorrect, goal)}/{goal} correct
+            </span>
+          </div>
+          <Progress value={Math.min(100, (streak.todayCorrect / goal) * 100)} className="h-2" />
+        </div>
+        <div className="flex items-center gap-1 text-accent font-bold" title={`Best: ${streak.best} days`}>
+          <Flame size={22} weight={streak.todayMet ? 'fill' : 'duotone'} />
+          {streak.current}
+          <span className="text-xs font-normal text-muted-foreground">{streak.current === 1 ? 'day' : 'days'}</span>
+        </div>
+        <div
+          className="flex items-center gap-1 text-sky-500"
+          title="Each freeze covers one missed day. Earn one for every week of met goals."
+        >
+          <Snowflake size={20} />
+          {streak.freezes}
+        </div>
+        <Dialog>
+          <DialogTrigger asChild>
+            <Button variant="ghost" size="sm" aria-label="Practice calendar">
+              <CalendarBlank size={20} />
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-2xl">
+            <DialogHeader>
+              <DialogTitle>Practice Calendar</DialogTitle>
+            </DialogHeader>
+            <p className="text-sm text-muted-foreground">
+              {streak.current} day streak · best {streak.best} · {streak.freezes} freeze{streak.freezes === 1 ? '' : 's'} banked
+            </p>
+            <ActivityCalendar activity={activity} goal={goal} streak={streak} />
+          </DialogContent>
+        </Dialog>
+      </div>
+    </Card>
+  )
+}
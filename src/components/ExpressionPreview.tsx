@@ -0,0 +1,112 @@
+import { ReactNode } from 'react'
+import { ExpressionNode, ExpressionError, parseExpression, evaluateExpression } from '@/lib/expression'
+import { isUndefinedAnswer, parseAngle, formatAngle } from '@/lib/trig'
+import { PracticeQuestion, isAngleAnswer } from '@/lib/questions'
+
+// Brackets that only group are dropped where the layout already shows the
+// grouping: under a radical, above or below a fraction bar, in an exponent.
+function unwrap(node: ExpressionNode): ExpressionNode {
+  return node.type === 'group' ? node.expression : node
+}
+
+function renderNode(node: ExpressionNode): ReactNode {
+  switch (node.type) {
+    case 'number':
+      return node.raw
+    case 'pi':
+      return 'π'
+    case 'negate':
+      return <>−{renderNode(node.operand)}</>
+    case 'sqrt':
+      return (
+        <span className="inline-flex items-start">
+          <span>√</span>
+          <span className="border-t-2 border-current px-0.5">{renderNode(unwrap(node.operand))}</span>
+        </span>
+      )
+    case 'group':
+      return <>({renderNode(node.expression)})</>
+    case 'binary':
+      if (node.operator === '/') {
+        return (
+          <span className="inline-flex flex-col items-center align-middle mx-0.5 text-[0.8em] leading-tight">
+            <span className="px-1">{renderNode(unwrap(node.left))}</span>
+            <span className="px-1 border-t-2 border-current">{renderNode(unwrap(node.right))}</span>
+          </span>
+        )
+      }
+      if (node.operator === '^') {
+        return <>{renderNode(node.left)}<sup>{renderNode(unwrap(node.right))}</sup></>
+      }
+      if (node.operator === '*') {
+        return <>{renderNode(node.left)}{node.implicit ? '' : ' · '}{renderNode(node.right)}</>
+      }
+      return <>{renderNode(node.left)} {node.operator === '-' ? '−' : '+'} {renderNode(node.right)}</>
+  }
+}
+
+function formatApproximation(value: number): string {
+  return Number.isFinite(value) ? `≈ ${Number(value.toPrecision(4))}`.replace('-', '−') : 'is undefined'
+}
+
+interface ExpressionPreviewProps {
+  input: string
+  question: PracticeQuestion
+}
+
+// Shows exactly how the typed answer will be read before it is submitted.
+export function ExpressionPreview({ input, question }: ExpressionPreviewProps) {
+  if (!input.trim()) {
+    return (
+      <div className="min-h-14 flex items-center justify-center text-sm text-muted-foreground">
+        Your answer will be previewed here
+      </div>
+    )
+  }
+
+  if (isAngleAnswer(question)) {
+    const angle = parseAngle(input, question.unit)
+    return (
+      <div className="min-h-14 flex items-center justify-center text-lg" aria-live="polite">
+        {angle === null ? (
+          <span className="text-sm text-destructive">Not an angle yet — try 30°, -45 or π/6</span>
+        ) : (
+          <span>
+            {formatAngle(angle, 'degrees')}
+            <span className="text-muted-foreground"> = {formatAngle(angle, 'radians')}</span>
+          </span>
+        )}
+      </div>
+    )
+  }
+
+  if (isUndefinedAnswer(input)) {
+    return (
+      <div className="min-h-14 flex items-center justify-center text-lg" aria-live="polite">
+        undefined
+      </div>
+    )
+  }
+
+  try {
+    const node = parseExpression(input)
+    return (
+      <div className="min-h-14 flex items-center justify-center gap-3 text-2xl" aria-live="polite">
+        <span className="inline-flex items-center">{renderNode(node)}</span>
+        <span className="text-sm text-muted-foreground">{formatApproximation(evaluateExpression(node))}</span>
+      </div>
+    )
+  } catch (error) {
+    if (!(error instanceof ExpressionError)) throw error
+    return (
+      <div className="min-h-14 flex flex-col items-center justify-center text-sm" aria-live="polite">
+        <span className="font-mono">
+          {input.slice(0, error.position)}
+          <span className="text-destructive underline decoration-wavy">{input[error.position] ?? ' '}</span>
+          {input.slice(error.position + 1)}
+        </span>
+        <span className="text-destructive">{error.message}</span>
+      </div>
+    )
+  }
+}
@@ -0,0 +1,285 @@
+import { useMemo, useState } from 'react'
+import { Card } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Check, X, ClockCounterClockwise, MagnifyingGlass, Trash, CaretLeft, CaretRight } from '@phosphor-icons/react'
+import { motion } from 'framer-motion'
+import { HistoryEntry, HistoryQuery, HistoryRollup, OutcomeFilter, EMPTY_HISTORY_QUERY, filterHistory } from '@/lib/history'
+import { formatPracticeQuestion } from '@/lib/questions'
+import { FUNCTIONS, formatAngle } from '@/lib/trig'
+import { INVERSE_FUNCTIONS } from '@/lib/inverse'
+import { MISTAKE_CATEGORIES, MISTAKE_LABELS } from '@/lib/mistakes'
+
+const PAGE_SIZE = 20
+const FUNCTION_ORDER: string[] = [...FUNCTIONS, ...INVERSE_FUNCTIONS]
+
+interface HistoryDialogProps {
+  history: HistoryEntry[]
+  rollup: HistoryRollup
+  onDelete: (id: string) => void
+}
+
+export function HistoryDialog({ history, rollup, onDelete }: HistoryDialogProps) {
+  const [query, setQuery] = useState<HistoryQuery>(EMPTY_HISTORY_QUERY)
+  const [page, setPage] = useState(0)
+  const filtered = useMemo(() => filterHistory(history, query), [history, query])
+  const pageCount = Math.max(1, Math.ceil(filtered.length / PAGE_SIZE))
+  const currentPage = Math.min(page, pageCount - 1)
+  const visible = filtered.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE)
+
+  const functions = useMemo(() => {
+    const seen = new Set<string>(history.map((entry) => entry.question.func))
+    return FUNCTION_ORDER.filter((func) => seen.has(func))
+  }, [history])
+  const angles = useMemo(
+    () => [...new Set(history.map((entry) => entry.question.angle))].sort((a, b) => a - b),
+    [history]
+  )
+
+  const updateQuery = (changes: Partial<HistoryQuery>) => {
+    setQuery((current) => ({ ...current, ...changes }))
+    setPage(0)
+  }
+
+  const isFiltered = JSON.stringify(query) !== JSON.stringify(EMPTY_HISTORY_QUERY)
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          className="gap-2"
+        >
+          <ClockCounterClockwise size={18} />
+          Answer History
+          {history.length > 0 && (
+            <Badge variant="secondary" className="ml-1">
+              {history.length}
+            </Badge>
+          )}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle>Answer History</DialogTitle>
+        </DialogHeader>
+        {rollup.attempts > 0 && rollup.from !== null && rollup.to !== null && (
+          <p className="text-xs text-muted-foreground">
+            {rollup.attempts} older answers from {new Date(rollup.from).toLocaleDateString()} to{' '}
+            {new Date(rollup.to).toLocaleDateString()} are kept as totals only:{' '}
+            {Math.round((rollup.correct / rollup.attempts) * 100)}% correct
+          </p>
+        )}
+        {history.length > 0 && (
+          <div className="space-y-2">
+            <div className="relative">
+              <MagnifyingGlass size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                value={query.search}
+                onChange={(e) => updateQuery({ search: e.target.value })}
+                placeholder="Search questions and answers"
+                aria-label="Search history"
+                className="pl-9"
+              />
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Select value={query.outcome} onValueChange={(value) => updateQuery({ outcome: value as OutcomeFilter })}>
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All answers</SelectItem>
+                  <SelectItem value="correct">Correct only</SelectItem>
+                  <SelectItem value="wrong">All mistakes</SelectItem>
+                  {MISTAKE_CATEGORIES.map((category) => (
+                    <SelectItem key={category} value={category}>
+                      {MISTAKE_LABELS[category]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={query.func ?? 'all'}
+                onValueChange={(value) => updateQuery({ func: value === 'all' ? null : value })}
+              >
+                <SelectTrigger className="w-32" aria-label="Function">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Any function</SelectItem>
+                  {functions.map((func) => (
+                    <SelectItem key={func} value={func}>
+                      {func}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={query.angle === null ? 'all' : String(query.angle)}
+                onValueChange={(value) => updateQuery({ angle: value === 'all' ? null : Number(value) })}
+              >
+                <SelectTrigger className="w-32" aria-label="Angle">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Any angle</SelectItem>
+                  {angles.map((angle) => (
+                    <SelectItem key={angle} value={String(angle)}>
+                      {formatAngle(angle)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex items-center gap-1">
+                <Input
+                  type="date"
+                  value={query.from}
+                  max={query.to || undefined}
+                  onChange={(e) => updateQuery({ from: e.target.value })}
+                  aria-label="From date"
+                  className="w-36"
+                />
+                <span className="text-muted-foreground">–</span>
+                <Input
+                  type="date"
+                  value={query.to}
+                  min={query.from || undefined}
+                  onChange={(e) => updateQuery({ to: e.target.value })}
+                  aria-label="To date"
+                  className="w-36"
+                />
+              </div>
+              {isFiltered && (
+                <Button variant="ghost" onClick={() => updateQuery(EMPTY_HISTORY_QUERY)}>
+                  Clear
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+        <ScrollArea className="h-[50vh] pr-4">
+          {history.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <ClockCounterClockwise size={48} className="mx-auto mb-4 opacity-50" />
+              <p>No answers yet</p>
+              <p className="text-sm mt-1">Start practicing to see your history</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {filtered.length === 0 && (
+                <p className="text-center py-12 text-muted-foreground">No answers match these filters</p>
+              )}
+              {visible.map((entry) => (
+                <motion.div
+                  key={entry.id}
+                  initial={{ opacity: 0 }}
+                  animate={{ opacity: 1 }}
+                >
+                  <Card className={`p-4 border-2 ${
+                    entry.isCorrect
+                      ? 'border-accent/30 bg-accent/5'
+                      : 'border-destructive/30 bg-destructive/5'
+                  }`}>
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="flex-1">
+                        <div className="flex items-center gap-3 mb-2">
+                          <div className={`rounded-full p-1.5 ${
+                            entry.isCorrect ? 'bg-accent/20' : 'bg-destructive/20'
+                          }`}>
+                            {entry.isCorrect ? (
+                              <Check size={20} weight="bold" className="text-accent" />
+                            ) : (
+                              <X size={20} weight="bold" className="text-destructive" />
+                            )}
+                          </div>
+                          <div className="text-lg font-semibold">
+                            {formatPracticeQuestion(entry.question)}
+                          </div>
+                          <Badge variant={entry.isCorrect ? "default" : "destructive"}>
+                            {entry.isCorrect ? 'Correct' : 'Wrong'}
+                          </Badge>
+                          {entry.usedHint && (
+                            <Badge variant="secondary">Hint</Badge>
+                          )}
+                          {entry.mistake && entry.mistake !== 'other' && (
+                            <Badge variant="outline">
+                              {MISTAKE_LABELS[entry.mistake]}
+                            </Badge>
+                          )}
+                        </div>
+                        <div className="ml-11 space-y-1 text-sm">
+                          <div className="flex gap-2">
+                            <span className="text-muted-foreground">Your answer:</span>
+                            <span className={`font-medium ${
+                              entry.isCorrect ? 'text-accent' : 'text-destructive'
+                            }`}>
+                              {entry.userAnswer}
+                            </span>
+                          </div>
+                          {!entry.isCorrect && (
+                            <div className="flex gap-2">
+                              <span className="text-muted-foreground">Correct answer:</span>
+                              <span className="font-medium text-accent">
+                                {entry.correctAnswer}
+                              </span>
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                      <div className="flex items-start gap-1">
+                        <div className="text-xs text-muted-foreground whitespace-nowrap text-right">
+                          <div>{new Date(entry.timestamp).toLocaleDateString()}</div>
+                          <div>{new Date(entry.timestamp).toLocaleTimeString()}</div>
+                          {entry.durationMs !== undefined && (
+                            <div>{(entry.durationMs / 1000).toFixed(1)}s</div>
+                          )}
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => onDelete(entry.id)}
+                          aria-label="Delete this answer"
+                        >
+                          <Trash size={16} />
+                        </Button>
+                      </div>
+                    </div>
+                  </Card>
+                </motion.div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+        {filtered.length > PAGE_SIZE && (
+          <div className="flex items-center justify-between gap-2 text-sm">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(currentPage - 1)}
+              disabled={currentPage === 0}
+              aria-label="Newer answers"
+            >
+              <CaretLeft size={16} />
+            </Button>
+            <span className="text-muted-foreground">
+              {currentPage * PAGE_SIZE + 1}–{currentPage * PAGE_SIZE + visible.length} of {filtered.length}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(currentPage + 1)}
+              disabled={currentPage === pageCount - 1}
+              aria-label="Older answers"
+            >
+              <CaretRight size={16} />
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,30 @@
+import { Button } from '@/components/ui/button'
+import { KeypadKey, getKeypadRows } from '@/lib/keypad'
+
+interface MathKeypadProps {
+  kind: 'value' | 'inverse'
+  onKey: (key: KeypadKey) => void
+  disabled?: boolean
+}
+
+export function MathKeypad({ kind, onKey, disabled }: MathKeypadProps) {
+  return (
+    <div className="grid grid-cols-5 gap-1.5" role="group" aria-label="Math keypad">
+      {getKeypadRows(kind).flat().map((key) => (
+        <Button
+          key={key.label}
+          type="button"
+          variant={key.action === 'submit' ? 'default' : 'outline'}
+          // Keep focus, and with it the caret, in the answer field.
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onKey(key)}
+          disabled={disabled}
+          aria-label={key.ariaLabel ?? key.label}
+          className="h-12 text-lg font-medium touch-manipulation"
+        >
+          {key.label}
+        </Button>
+      ))}
+    </div>
+  )
+}
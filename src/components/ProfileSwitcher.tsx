@@ -0,0 +1,122 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { UserCircle, UsersThree, Trash, Plus } from '@phosphor-icons/react'
+import { ProfileState, MAX_PROFILE_NAME_LENGTH, normalizeProfileName } from '@/lib/profiles'
+
+export interface ProfileSwitcherProps {
+  state: ProfileState
+  onSwitch: (id: string) => void
+  onCreate: (name: string) => void
+  onRename: (id: string, name: string) => void
+  onDelete: (id: string) => void
+  disabled?: boolean
+}
+
+export function ProfileSwitcher({ state, onSwitch, onCreate, onRename, onDelete, disabled }: ProfileSwitcherProps) {
+  const [newName, setNewName] = useState('')
+  const [confirmingId, setConfirmingId] = useState<string | null>(null)
+
+  const handleCreate = () => {
+    if (!normalizeProfileName(newName)) return
+    onCreate(newName)
+    setNewName('')
+  }
+
+  return (
+    <div className="flex items-center justify-center gap-2">
+      <UserCircle size={22} className="text-muted-foreground" />
+      <Select value={state.activeId} onValueChange={onSwitch} disabled={disabled}>
+        <SelectTrigger className="h-9 w-48">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {state.profiles.map((profile) => (
+            <SelectItem key={profile.id} value={profile.id}>
+              {profile.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Dialog onOpenChange={() => setConfirmingId(null)}>
+        <DialogTrigger asChild>
+          <Button variant="ghost" size="sm" className="gap-1" disabled={disabled}>
+            <UsersThree size={18} />
+            Profiles
+          </Button>
+        </DialogTrigger>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Learner Profiles</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            {state.profiles.map((profile) => (
+              <div key={profile.id} className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <Input
+                    defaultValue={profile.name}
+                    maxLength={MAX_PROFILE_NAME_LENGTH}
+                    aria-label={`Rename ${profile.name}`}
+                    onBlur={(e) => {
+                      const name = normalizeProfileName(e.target.value)
+                      if (name && name !== profile.name) {
+                        onRename(profile.id, name)
+                      } else {
+                        e.target.value = profile.name
+                      }
+                    }}
+                    onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setConfirmingId(profile.id)}
+                    disabled={state.profiles.length === 1}
+                    aria-label={`Delete ${profile.name}`}
+                  >
+                    <Trash size={18} />
+                  </Button>
+                </div>
+                {confirmingId === profile.id && (
+                  <div className="flex items-center justify-between gap-2 rounded-md border-2 border-destructive/40 bg-destructive/5 p-2 text-sm">
+                    <span>Delete {profile.name} and all of their progress?</span>
+                    <div className="flex gap-1">
+                      <Button variant="ghost" size="sm" onClick={() => setConfirmingId(null)}>
+                        Keep
+                      </Button>
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        onClick={() => {
+                          setConfirmingId(null)
+                          onDelete(profile.id)
+                        }}
+                      >
+                        Delete
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-2 pt-2 border-t">
+            <Input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+              placeholder="New learner's name"
+              maxLength={MAX_PROFILE_NAME_LENGTH}
+            />
+            <Button className="gap-1" onClick={handleCreate} disabled={!normalizeProfileName(newName)}>
+              <Plus size={16} />
+              Add
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
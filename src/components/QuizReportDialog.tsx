@@ -0,0 +1,134 @@
+import { Card } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Check, X, ArrowClockwise, ShareNetwork, Sword } from '@phosphor-icons/react'
+import { toast } from 'sonner'
+import { QuizSession, summarizeQuiz, getChallengeLink } from '@/lib/quiz'
+import { createChallengeUrl } from '@/lib/links'
+import { getDeck } from '@/lib/decks'
+import { formatPracticeQuestion } from '@/lib/questions'
+import { formatDuration } from '@/lib/challenges'
+
+interface QuizReportDialogProps {
+  session: QuizSession | null
+  onClose: () => void
+  onRetryMissed: (session: QuizSession) => void
+}
+
+async function shareLink(url: string) {
+  if (navigator.share) {
+    try {
+      await navigator.share({ title: 'Trig Master challenge', text: 'Can you beat my score?', url })
+      return
+    } catch {
+      // Cancelled or unsupported: fall back to copying.
+    }
+  }
+  await navigator.clipboard.writeText(url)
+  toast.success('Challenge link copied', {
+    description: 'Send it to a friend to play the same questions'
+  })
+}
+
+export function QuizReportDialog({ session, onClose, onRetryMissed }: QuizReportDialogProps) {
+  const report = session ? summarizeQuiz(session) : null
+  const link = session ? getChallengeLink(session) : null
+
+  return (
+    <Dialog open={session !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[85vh]">
+        {session && report && (
+          <>
+            <DialogHeader>
+              <DialogTitle>Quiz report</DialogTitle>
+            </DialogHeader>
+            <div className="grid grid-cols-3 gap-3 text-center">
+              <Card className="p-3 border-2">
+                <div className="text-2xl font-bold text-primary">{report.score}/{report.total}</div>
+                <div className="text-xs text-muted-foreground">score</div>
+              </Card>
+              <Card className="p-3 border-2">
+                <div className="text-2xl font-bold text-accent">{Math.round(report.accuracy * 100)}%</div>
+                <div className="text-xs text-muted-foreground">accuracy</div>
+              </Card>
+              <Card className="p-3 border-2">
+                <div className="text-2xl font-bold text-secondary-foreground">{formatDuration(report.durationMs)}</div>
+                <div className="text-xs text-muted-foreground">time</div>
+              </Card>
+            </div>
+            {session.challengerScore !== undefined && (
+              <div className="flex items-center justify-center gap-3 rounded-md border-2 border-primary/40 bg-primary/5 p-3">
+                <Sword size={20} className="text-primary" />
+                <span className="font-semibold">
+                  {report.score > session.challengerScore
+                    ? 'You beat the challenge!'
+                    : report.score === session.challengerScore
+                      ? "It's a tie!"
+                      : 'The challenger wins this one'}
+                </span>
+                <span className="text-muted-foreground">
+                  you {report.score} · challenger {session.challengerScore}
+                </span>
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground text-center">
+              {getDeck(session.config.deckId).name} · {new Date(session.startedAt).toLocaleString()}
+              {session.answers.length < session.questions.length && ` · stopped after ${session.answers.length} questions`}
+            </p>
+            <ScrollArea className="h-[40vh] pr-4">
+              <div className="space-y-2">
+                {session.answers.map((answer, index) => (
+                  <div
+                    key={index}
+                    className={`flex items-center gap-3 rounded-md border-2 p-3 text-sm ${
+                      answer.isCorrect ? 'border-accent/30 bg-accent/5' : 'border-destructive/30 bg-destructive/5'
+                    }`}
+                  >
+                    <span className="w-6 text-muted-foreground">{index + 1}.</span>
+                    {answer.isCorrect ? (
+                      <Check size={18} weight="bold" className="text-accent" />
+                    ) : (
+                      <X size={18} weight="bold" className="text-destructive" />
+                    )}
+                    <span className="font-semibold flex-1">{formatPracticeQuestion(answer.question)}</span>
+                    <span className={answer.isCorrect ? 'text-accent' : 'text-destructive'}>{answer.userAnswer}</span>
+                    {!answer.isCorrect && (
+                      <span className="text-muted-foreground">→ {answer.correctAnswer}</span>
+                    )}
+                    <span className="w-12 text-right text-xs text-muted-foreground">
+                      {(answer.durationMs / 1000).toFixed(1)}s
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+            <div className="flex gap-2">
+              <Button variant="outline" className="flex-1" onClick={onClose}>
+                Close
+              </Button>
+              {link && (
+                <Button
+                  variant="outline"
+                  className="flex-1 gap-2"
+                  onClick={() => shareLink(createChallengeUrl(link, window.location.href))}
+                >
+                  <ShareNetwork size={16} />
+                  Challenge a friend
+                </Button>
+              )}
+              <Button
+                className="flex-1 gap-2"
+                disabled={report.missed.length === 0}
+                onClick={() => onRetryMissed(session)}
+              >
+                <ArrowClockwise size={16} />
+                Retry {report.missed.length} missed
+              </Button>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
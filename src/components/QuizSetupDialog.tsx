@@ -0,0 +1,95 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { ListChecks, Play } from '@phosphor-icons/react'
+import { DECKS, getDeck } from '@/lib/decks'
+import { QuizConfig, QUIZ_LENGTHS, DEFAULT_QUIZ_CONFIG } from '@/lib/quiz'
+
+interface QuizSetupDialogProps {
+  onStart: (config: QuizConfig) => void
+  disabled?: boolean
+}
+
+export function QuizSetupDialog({ onStart, disabled }: QuizSetupDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [config, setConfig] = useState<QuizConfig>(DEFAULT_QUIZ_CONFIG)
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2" disabled={disabled}>
+          <ListChecks size={18} />
+          Quiz
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>New quiz</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label>Questions</Label>
+            <Select
+              value={String(config.length)}
+              onValueChange={(value) => setConfig({ ...config, length: Number(value) })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {QUIZ_LENGTHS.map((length) => (
+                  <SelectItem key={length} value={String(length)}>
+                    {length} questions
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Deck</Label>
+            <Select
+              value={config.deckId}
+              onValueChange={(deckId) => setConfig({ ...config, deckId })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DECKS.map((deck) => (
+                  <SelectItem key={deck.id} value={deck.id}>
+                    {deck.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{getDeck(config.deckId).description}</p>
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="quiz-defer-feedback">Hide feedback until the end</Label>
+              <p className="text-xs text-muted-foreground">Answers are only marked on the report</p>
+            </div>
+            <Switch
+              id="quiz-defer-feedback"
+              checked={config.deferFeedback}
+              onCheckedChange={(deferFeedback: boolean) => setConfig({ ...config, deferFeedback })}
+            />
+          </div>
+          <Button
+            className="w-full gap-2"
+            onClick={() => {
+              setOpen(false)
+              onStart(config)
+            }}
+          >
+            <Play size={16} weight="fill" />
+            Start {config.length}-question quiz
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
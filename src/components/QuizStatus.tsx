@@ -0,0 +1,41 @@
+import { Card } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
+import { QuizSession } from '@/lib/quiz'
+import { getDeck } from '@/lib/decks'
+
+interface QuizStatusProps {
+  session: QuizSession
+  onQuit: () => void
+  disabled?: boolean
+}
+
+export function QuizStatus({ session, onQuit, disabled }: QuizStatusProps) {
+  const answered = session.answers.length
+  const total = session.questions.length
+  const correct = session.answers.filter((answer) => answer.isCorrect).length
+
+  return (
+    <Card className="p-4 mb-4 border-2 border-primary/40 bg-primary/5">
+      <div className="flex items-center justify-between gap-4 mb-2">
+        <div>
+          <div className="font-semibold">
+            Question {Math.min(answered + 1, total)} of {total}
+          </div>
+          <div className="text-xs text-muted-foreground">{getDeck(session.config.deckId).name}</div>
+        </div>
+        <div className="flex items-center gap-4">
+          {!session.config.deferFeedback && (
+            <div className="text-lg font-bold text-primary tabular-nums">
+              {correct}/{answered}
+            </div>
+          )}
+          <Button variant="ghost" size="sm" onClick={onQuit} disabled={disabled}>
+            Quit quiz
+          </Button>
+        </div>
+      </div>
+      <Progress value={(answered / total) * 100} className="h-2" />
+    </Card>
+  )
+}
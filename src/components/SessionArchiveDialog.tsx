@@ -0,0 +1,71 @@
+import { Card } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Archive } from '@phosphor-icons/react'
+import { QuizSession, summarizeQuiz } from '@/lib/quiz'
+import { getDeck } from '@/lib/decks'
+import { formatDuration } from '@/lib/challenges'
+
+interface SessionArchiveDialogProps {
+  sessions: QuizSession[]
+  onOpenSession: (session: QuizSession) => void
+}
+
+export function SessionArchiveDialog({ sessions, onOpenSession }: SessionArchiveDialogProps) {
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <Archive size={18} />
+          Past Quizzes
+          {sessions.length > 0 && (
+            <Badge variant="secondary" className="ml-1">
+              {sessions.length}
+            </Badge>
+          )}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[80vh]">
+        <DialogHeader>
+          <DialogTitle>Past Quizzes</DialogTitle>
+        </DialogHeader>
+        <ScrollArea className="h-[60vh] pr-4">
+          {sessions.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <Archive size={48} className="mx-auto mb-4 opacity-50" />
+              <p>No finished quizzes yet</p>
+              <p className="text-sm mt-1">Finished quizzes are saved here with their full report</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {sessions.map((session) => {
+                const report = summarizeQuiz(session)
+                return (
+                  <Card key={session.id} className="p-0 border-2">
+                    <button
+                      className="w-full p-4 flex items-center justify-between gap-4 text-left hover:bg-muted/50 transition-colors rounded-lg"
+                      onClick={() => onOpenSession(session)}
+                    >
+                      <div>
+                        <div className="font-semibold">{getDeck(session.config.deckId).name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {new Date(session.startedAt).toLocaleString()} · {formatDuration(report.durationMs)}
+                        </div>
+                      </div>
+                      <div className="text-right">
+                        <div className="text-xl font-bold text-primary">{report.score}/{report.total}</div>
+                        <div className="text-xs text-muted-foreground">{Math.round(report.accuracy * 100)}%</div>
+                      </div>
+                    </button>
+                  </Card>
+                )
+              })}
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  )
+}
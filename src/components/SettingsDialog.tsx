@@ -0,0 +1,260 @@
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { GearSix } from '@phosphor-icons/react'
+import {
+  Angle,
+  TrigFunction,
+  UnitSetting,
+  FUNCTIONS,
+  QUADRANT_ANGLES,
+  NEGATIVE_ANGLES,
+  COTERMINAL_ANGLES,
+  formatAngle,
+} from '@/lib/trig'
+import { DECKS } from '@/lib/decks'
+import { PracticeMode } from '@/lib/questions'
+import { Settings, InputMode, NEXT_QUESTION_DELAYS_MS, HISTORY_LIMITS, applyPreset, changeGrading, matchesPreset } from '@/lib/settings'
+import { DAILY_GOALS } from '@/lib/daily'
+
+const ANGLE_GROUPS: [string, Angle[]][] = [
+  ['0° to 360°', QUADRANT_ANGLES],
+  ['Negative', NEGATIVE_ANGLES],
+  ['Beyond 360°', COTERMINAL_ANGLES],
+]
+
+const VALUES_NOTES: Partial<Record<PracticeMode, string>> = {
+  inverse: 'Inverse questions always use the special values in each principal range',
+  triangles: 'Triangle questions always use the 30°, 45° and 60° triangles',
+  expressions: 'Expressions combine all six functions at the special angles off the axes',
+}
+
+interface SettingsDialogProps {
+  settings: Settings
+  onChange: (changes: Partial<Settings>) => void
+  disabled?: boolean
+}
+
+export function SettingsDialog({ settings, onChange, disabled }: SettingsDialogProps) {
+  const valuesDisabled = settings.mode !== 'values' && settings.mode !== 'mixed'
+
+  // The deck is never allowed to become empty.
+  const toggleFunction = (func: TrigFunction) => {
+    const functions = settings.functions.includes(func)
+      ? settings.functions.filter(f => f !== func)
+      : FUNCTIONS.filter(f => f === func || settings.functions.includes(f))
+    if (functions.length > 0) onChange({ functions })
+  }
+
+  const toggleAngles = (toggled: Angle[]) => {
+    const allSelected = toggled.every(angle => settings.angles.includes(angle))
+    const angles = allSelected
+      ? settings.angles.filter(angle => !toggled.includes(angle))
+      : [...settings.angles, ...toggled.filter(angle => !settings.angles.includes(angle))]
+    if (angles.length > 0) onChange({ angles })
+  }
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2" disabled={disabled}>
+          <GearSix size={18} />
+          Settings
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[85vh]">
+        <DialogHeader>
+          <DialogTitle>Practice Settings</DialogTitle>
+        </DialogHeader>
+        <ScrollArea className="h-[65vh] pr-4">
+          <div className="space-y-6">
+            <section className="space-y-2">
+              <Label>Presets</Label>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {DECKS.map((deck) => (
+                  <Button
+                    key={deck.id}
+                    type="button"
+                    variant={matchesPreset(settings, deck) ? 'secondary' : 'outline'}
+                    onClick={() => onChange(applyPreset(deck))}
+                    className="h-auto flex-col items-start gap-0.5 py-2 text-left whitespace-normal"
+                  >
+                    <span className="font-semibold">{deck.name}</span>
+                    <span className="text-xs font-normal text-muted-foreground">{deck.description}</span>
+                  </Button>
+                ))}
+              </div>
+            </section>
+
+            <section className="space-y-2">
+              <Label>Functions</Label>
+              <div className="flex flex-wrap gap-1">
+                {FUNCTIONS.map((func) => (
+                  <Button
+                    key={func}
+                    type="button"
+                    size="sm"
+                    variant={settings.functions.includes(func) ? 'default' : 'outline'}
+                    onClick={() => toggleFunction(func)}
+                    disabled={valuesDisabled}
+                    className="w-14"
+                  >
+                    {func}
+                  </Button>
+                ))}
+              </div>
+            </section>
+
+            <section className="space-y-3">
+              <Label>Angles</Label>
+              {ANGLE_GROUPS.map(([label, angles]) => (
+                <div key={label} className="space-y-1">
+                  <button
+                    type="button"
+                    onClick={() => toggleAngles(angles)}
+                    disabled={valuesDisabled}
+                    className="text-xs text-muted-foreground hover:text-foreground transition-colors"
+                  >
+                    {label} · toggle all
+                  </button>
+                  <div className="flex flex-wrap gap-1">
+                    {angles.map((angle) => (
+                      <Button
+                        key={angle}
+                        type="button"
+                        size="sm"
+                        variant={settings.angles.includes(angle) ? 'default' : 'outline'}
+                        onClick={() => toggleAngles([angle])}
+                        disabled={valuesDisabled}
+                        className="h-8 w-14 px-0 text-xs"
+                      >
+                        {formatAngle(angle)}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+              {valuesDisabled && (
+                <p className="text-xs text-muted-foreground">
+                  {VALUES_NOTES[settings.mode]}
+                </p>
+              )}
+            </section>
+
+            <section className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Units</Label>
+                <Select value={settings.unit} onValueChange={(unit) => onChange({ unit: unit as UnitSetting })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="degrees">Degrees</SelectItem>
+                    <SelectItem value="radians">Radians</SelectItem>
+                    <SelectItem value="mixed">Mixed</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Answer with</Label>
+                <Select
+                  value={settings.inputMode}
+                  onValueChange={(inputMode) => onChange({ inputMode: inputMode as InputMode })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="select">Multiple choice</SelectItem>
+                    <SelectItem value="type">Typing</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Next question after</Label>
+                <Select
+                  value={String(settings.nextQuestionDelayMs)}
+                  onValueChange={(value) => onChange({ nextQuestionDelayMs: Number(value) })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {NEXT_QUESTION_DELAYS_MS.map((delay) => (
+                      <SelectItem key={delay} value={String(delay)}>
+                        {delay / 1000} s
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </section>
+
+            <section className="flex items-center justify-between gap-4">
+              <div>
+                <Label>Daily goal</Label>
+                <p className="text-xs text-muted-foreground">Correct answers needed to keep your day streak going</p>
+              </div>
+              <Select
+                value={String(settings.dailyGoal)}
+                onValueChange={(value) => onChange({ dailyGoal: Number(value) })}
+              >
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DAILY_GOALS.map((goal) => (
+                    <SelectItem key={goal} value={String(goal)}>
+                      {goal} a day
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </section>
+
+            <section className="flex items-center justify-between gap-4">
+              <div>
+                <Label>Keep in history</Label>
+                <p className="text-xs text-muted-foreground">Older answers are summarised so analytics still count them</p>
+              </div>
+              <Select
+                value={String(settings.historyLimit)}
+                onValueChange={(value) => onChange({ historyLimit: Number(value) })}
+              >
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {HISTORY_LIMITS.map((limit) => (
+                    <SelectItem key={limit} value={String(limit)}>
+                      {limit.toLocaleString()} answers
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </section>
+
+            <section className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="settings-accept-decimals">Accept decimal answers</Label>
+                <p className="text-xs text-muted-foreground">
+                  {settings.grading.mode === 'decimal'
+                    ? `Decimals must match to ${settings.grading.significantFigures} significant figures`
+                    : 'Only exact forms like √3/2 are marked correct'}
+                </p>
+              </div>
+              <Switch
+                id="settings-accept-decimals"
+                checked={settings.grading.mode === 'decimal'}
+                onCheckedChange={(checked: boolean) => onChange(changeGrading(settings, checked))}
+              />
+            </section>
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,78 @@
+import { formatAngle } from '@/lib/trig'
+import { TriangleQuestion, TriangleSide, RATIO_SIDES, getSideLength, getUnknownSide } from '@/lib/triangle'
+
+const HYPOTENUSE = 200
+const MARGIN = 44
+const RIGHT_ANGLE = 12
+
+// θ sits at the bottom left, the right angle at the bottom right.
+export function TriangleFigure({ question }: { question: TriangleQuestion }) {
+  const radians = (question.angle * Math.PI) / 180
+  const adjacent = HYPOTENUSE * Math.cos(radians)
+  const opposite = HYPOTENUSE * Math.sin(radians)
+  const width = adjacent + MARGIN * 2 + 20
+  const height = opposite + MARGIN * 2
+  const [ax, ay] = [MARGIN, MARGIN + opposite]
+  const [bx, by] = [MARGIN + adjacent, ay]
+  const [cx, cy] = [bx, MARGIN]
+
+  const unknown = question.target === 'side' ? getUnknownSide(question) : null
+  const label = (side: TriangleSide): string | null => {
+    if (side === unknown) return '?'
+    return RATIO_SIDES[question.func].includes(side) ? getSideLength(question, side) : null
+  }
+  const sideClass = (side: TriangleSide) =>
+    side === unknown ? 'fill-accent font-bold text-[16px]' : 'fill-foreground text-[14px]'
+  const bisector = radians / 2
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      className="w-full max-w-[280px] mx-auto"
+      role="img"
+      aria-label={`Right triangle with ${question.target === 'angle' ? 'an unknown angle' : `a ${formatAngle(question.angle)} angle`}`}
+    >
+      <polygon points={`${ax},${ay} ${bx},${by} ${cx},${cy}`} className="fill-primary/10 stroke-primary" strokeWidth={2} />
+      <polyline
+        points={`${bx - RIGHT_ANGLE},${by} ${bx - RIGHT_ANGLE},${by - RIGHT_ANGLE} ${bx},${by - RIGHT_ANGLE}`}
+        fill="none"
+        className="stroke-muted-foreground"
+        strokeWidth={1.5}
+      />
+      <path
+        d={`M ${ax + 30} ${ay} A 30 30 0 0 0 ${ax + 30 * Math.cos(radians)} ${ay - 30 * Math.sin(radians)}`}
+        fill="none"
+        className="stroke-accent"
+        strokeWidth={2}
+      />
+      <text
+        x={ax + 48 * Math.cos(bisector)}
+        y={ay - 48 * Math.sin(bisector) + 5}
+        textAnchor="start"
+        className={question.target === 'angle' ? 'fill-accent font-bold text-[16px]' : 'fill-accent text-[13px] font-semibold'}
+      >
+        {question.target === 'angle' ? 'θ = ?' : formatAngle(question.angle, question.unit)}
+      </text>
+      {label('adjacent') && (
+        <text x={(ax + bx) / 2} y={ay + 24} textAnchor="middle" className={sideClass('adjacent')}>
+          {label('adjacent')}
+        </text>
+      )}
+      {label('opposite') && (
+        <text x={bx + 10} y={(by + cy) / 2 + 5} textAnchor="start" className={sideClass('opposite')}>
+          {label('opposite')}
+        </text>
+      )}
+      {label('hypotenuse') && (
+        <text
+          x={(ax + cx) / 2 - 14 * Math.sin(radians)}
+          y={(ay + cy) / 2 - 14 * Math.cos(radians)}
+          textAnchor="end"
+          className={sideClass('hypotenuse')}
+        >
+          {label('hypotenuse')}
+        </text>
+      )}
+    </svg>
+  )
+}
@@ -0,0 +1,62 @@
+import { Card } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Medal, LockSimple } from '@phosphor-icons/react'
+import { ACHIEVEMENTS, Unlocks } from '@/lib/achievements'
+
+interface TrophyShelfDialogProps {
+  unlocks: Unlocks
+}
+
+export function TrophyShelfDialog({ unlocks }: TrophyShelfDialogProps) {
+  const unlockedCount = ACHIEVEMENTS.filter((achievement) => unlocks[achievement.id]).length
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <Medal size={18} />
+          Trophies
+          <Badge variant="secondary" className="ml-1">
+            {unlockedCount}/{ACHIEVEMENTS.length}
+          </Badge>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[80vh]">
+        <DialogHeader>
+          <DialogTitle>Trophy Shelf</DialogTitle>
+        </DialogHeader>
+        <ScrollArea className="h-[60vh] pr-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {ACHIEVEMENTS.map((achievement) => {
+              const unlockedAt = unlocks[achievement.id]
+              return (
+                <Card
+                  key={achievement.id}
+                  className={`p-4 flex items-center gap-4 border-2 ${
+                    unlockedAt ? 'border-accent/50 bg-accent/5' : 'opacity-60'
+                  }`}
+                >
+                  <span className={`text-3xl ${unlockedAt ? '' : 'grayscale'}`}>
+                    {unlockedAt ? achievement.emoji : <LockSimple size={30} className="text-muted-foreground" />}
+                  </span>
+                  <div>
+                    <div className="font-semibold">{achievement.title}</div>
+                    <div className="text-sm text-muted-foreground">{achievement.description}</div>
+                    {unlockedAt && (
+                      <div className="text-xs text-accent mt-1">
+                        Unlocked {new Date(unlockedAt).toLocaleDateString()}
+                      </div>
+                    )}
+                  </div>
+                </Card>
+              )
+            })}
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest'
+import { renderToStaticMarkup } from 'react-dom/server'
+import { UnitCircleHint } from '@/components/UnitCircleHint'
+import { ANGLE_SUMS, CompositeQuestion } from '@/lib/composite'
+
+describe('UnitCircleHint', () => {
+  it('splits an angle-sum question into its two special angles', () => {
+    const question: CompositeQuestion = { kind: 'composite', form: 'angle-sum', func: 'cos', angle: 75, unit: 'degrees' }
+    const markup = renderToStaticMarkup(<UnitCircleHint question={question} />)
+    expect(markup).toContain('75° = 45° + 30°')
+    expect(markup).toContain('(√2/2, √2/2)')
+    expect(markup).toContain('(√3/2, 1/2)')
+  })
+
+  it('renders every angle sum', () => {
+    for (const angle of Object.keys(ANGLE_SUMS).map(Number)) {
+      const question: CompositeQuestion = { kind: 'composite', form: 'angle-sum', func: 'sin', angle, unit: 'radians' }
+      expect(() => renderToStaticMarkup(<UnitCircleHint question={question} />)).not.toThrow()
+    }
+  })
+
+  it('marks both angles of a sum of values', () => {
+    const question: CompositeQuestion = { kind: 'composite', form: 'sum', func: 'sin', angle: 30, otherAngle: 150, unit: 'degrees' }
+    const markup = renderToStaticMarkup(<UnitCircleHint question={question} />)
+    expect(markup).toContain('Unit circle at 30° and 150°')
+  })
+})
@@ -0,0 +1,262 @@
+import { Card } from '@/components/ui/card'
+import { PracticeQuestion } from '@/lib/questions'
+import { AngleUnit, TrigFunction, formatAngle, getCorrectAnswers, getReferenceAngle, normalizeAngle } from '@/lib/trig'
+import { PRINCIPAL_RANGES, getInverseValue } from '@/lib/inverse'
+import { RATIO_SIDES } from '@/lib/triangle'
+import { CompositeForm, ANGLE_SUMS } from '@/lib/composite'
+
+const SIZE = 260
+const CENTER = SIZE / 2
+const RADIUS = 100
+
+const READINGS: Record<TrigFunction, string> = {
+  sin: 'y',
+  cos: 'x',
+  tan: 'y / x',
+  csc: '1 / y',
+  sec: '1 / x',
+  cot: 'x / y',
+}
+
+const INVERSE_READINGS = {
+  arcsin: 'y-coordinate',
+  arccos: 'x-coordinate',
+  arctan: 'ratio y / x',
+}
+
+function toPoint(degrees: number, radius: number = RADIUS): [number, number] {
+  const radians = (degrees * Math.PI) / 180
+  return [CENTER + radius * Math.cos(radians), CENTER - radius * Math.sin(radians)]
+}
+
+function arcPath(from: number, to: number, radius: number): string {
+  const [startX, startY] = toPoint(from, radius)
+  const [endX, endY] = toPoint(to, radius)
+  const largeArc = Math.abs(to - from) > 180 ? 1 : 0
+  const sweep = to > from ? 0 : 1
+  return `M ${startX} ${startY} A ${radius} ${radius} 0 ${largeArc} ${sweep} ${endX} ${endY}`
+}
+
+const COMPOSITE_TIPS: Record<CompositeForm, string> = {
+  pythagorean: 'sin²θ + cos²θ = 1, and dividing through gives 1 + tan²θ = sec²θ and 1 + cot²θ = csc²θ.',
+  'double-angle': 'sin 2θ = 2 sin θ cos θ and cos 2θ = cos²θ − sin²θ.',
+  sum: 'Read each value off the circle, then add them over a common denominator.',
+  difference: 'Read each value off the circle, then subtract them over a common denominator.',
+  'angle-sum': 'sin(a + b) = sin a cos b + cos a sin b and cos(a + b) = cos a cos b − sin a sin b.',
+}
+
+function coordinate(func: 'sin' | 'cos', angle: number): string {
+  return getCorrectAnswers({ func, angle })[0].replace(/-/g, '−')
+}
+
+function describeAngle(angle: number, unit?: AngleUnit): string {
+  const normalized = normalizeAngle(angle)
+  const reference = getReferenceAngle(angle)
+  const parts = [formatAngle(angle, unit)]
+  if (angle !== normalized) parts.push(`is coterminal with ${formatAngle(normalized, unit)}`)
+  if (angle !== normalized && reference % 90 !== 0) parts.push('and')
+  if (reference % 90 !== 0) {
+    parts.push(`has a reference angle of ${formatAngle(reference, unit)}`)
+  } else {
+    parts.push(angle !== normalized ? 'and lies on an axis' : 'lies on an axis')
+  }
+  return `${parts.join(' ')}.`
+}
+
+function Axes() {
+  return (
+    <>
+      <line x1={10} y1={CENTER} x2={SIZE - 10} y2={CENTER} className="stroke-muted-foreground/50" />
+      <line x1={CENTER} y1={10} x2={CENTER} y2={SIZE - 10} className="stroke-muted-foreground/50" />
+      <circle cx={CENTER} cy={CENTER} r={RADIUS} fill="none" className="stroke-primary" strokeWidth={2} />
+    </>
+  )
+}
+
+function SpecialTriangle({ reference }: { reference: number }) {
+  if (reference !== 30 && reference !== 45 && reference !== 60) return null
+
+  const is45 = reference === 45
+  const width = is45 ? 100 : 150
+  const height = is45 ? 100 : 86
+  const left = 20
+  const bottom = 110
+  const long = is45 ? '1' : '√3'
+  const hypotenuse = is45 ? '√2' : '2'
+
+  return (
+    <svg viewBox="0 0 200 130" className="w-full max-w-[220px]" role="img" aria-label={is45 ? '45-45-90 triangle' : '30-60-90 triangle'}>
+      <polygon
+        points={`${left},${bottom} ${left + width},${bottom} ${left + width},${bottom - height}`}
+        className="fill-accent/15 stroke-accent"
+        strokeWidth={2}
+      />
+      <text x={left + width / 2} y={bottom + 16} textAnchor="middle" className="fill-foreground text-[12px]">{long}</text>
+      <text x={left + width + 8} y={bottom - height / 2} className="fill-foreground text-[12px]">1</text>
+      <text x={left + width / 2 - 12} y={bottom - height / 2 - 6} textAnchor="end" className="fill-foreground text-[12px]">{hypotenuse}</text>
+      <text x={left + 22} y={bottom - 6} className="fill-muted-foreground text-[10px]">{is45 ? '45°' : '30°'}</text>
+      <text x={left + width - 6} y={bottom - height + 22} textAnchor="end" className="fill-muted-foreground text-[10px]">{is45 ? '45°' : '60°'}</text>
+    </svg>
+  )
+}
+
+export function UnitCircleHint({ question }: { question: PracticeQuestion }) {
+  if (question.kind === 'triangle') {
+    const [numerator, denominator] = RATIO_SIDES[question.func]
+    return (
+      <Card className="p-4 bg-secondary/10 border-secondary">
+        <div className="flex flex-col sm:flex-row items-center gap-4">
+          <div className="flex w-full max-w-[260px] flex-col items-center gap-2">
+            {question.target === 'angle' ? (
+              <>
+                <SpecialTriangle reference={30} />
+                <SpecialTriangle reference={45} />
+              </>
+            ) : (
+              <SpecialTriangle reference={question.angle} />
+            )}
+          </div>
+          <div className="text-sm space-y-2">
+            <p>
+              The {numerator} and the {denominator} are linked by <strong>{question.func} θ = {numerator} / {denominator}</strong>.
+            </p>
+            <p className="text-muted-foreground">
+              {question.target === 'angle'
+                ? 'Divide the two lengths, then find the special triangle with the same ratio.'
+                : `Scale the special triangle until its ${question.given} is ${question.length}, then read off the ${numerator === question.given ? denominator : numerator}.`}
+            </p>
+          </div>
+        </div>
+      </Card>
+    )
+  }
+
+  if (question.kind === 'composite') {
+    // Angle sums are read off the circle at the two special angles they split into.
+    const split = question.form === 'angle-sum' ? ANGLE_SUMS[question.angle] : null
+    const angles = split ?? [question.angle, ...(question.otherAngle === undefined ? [] : [question.otherAngle])]
+    return (
+      <Card className="p-4 bg-secondary/10 border-secondary">
+        <div className="flex flex-col sm:flex-row items-center gap-4">
+          <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="w-full max-w-[260px]" role="img" aria-label={`Unit circle at ${angles.map((angle) => formatAngle(angle)).join(' and ')}`}>
+            <Axes />
+            {split && (
+              <line
+                x1={CENTER}
+                y1={CENTER}
+                x2={toPoint(question.angle)[0]}
+                y2={toPoint(question.angle)[1]}
+                className="stroke-muted-foreground"
+                strokeWidth={1.5}
+                strokeDasharray="4 4"
+              />
+            )}
+            {angles.map((angle) => {
+              const [pointX, pointY] = toPoint(normalizeAngle(angle))
+              return (
+                <g key={angle}>
+                  <line x1={CENTER} y1={CENTER} x2={pointX} y2={pointY} className="stroke-foreground" strokeWidth={2} />
+                  <circle cx={pointX} cy={pointY} r={4} className="fill-destructive" />
+                  <text x={pointX + (pointX >= CENTER ? 8 : -8)} y={pointY + (pointY <= CENTER ? -8 : 16)} textAnchor={pointX >= CENTER ? 'start' : 'end'} className="fill-foreground text-[11px] font-medium">
+                    ({coordinate('cos', angle)}, {coordinate('sin', angle)})
+                  </text>
+                </g>
+              )
+            })}
+          </svg>
+          <div className="text-sm space-y-2">
+            {split && (
+              <p>
+                {formatAngle(question.angle, question.unit)} = {formatAngle(split[0], question.unit)} {split[1] < 0 ? '−' : '+'} {formatAngle(Math.abs(split[1]), question.unit)}, two special angles.
+              </p>
+            )}
+            <p>{COMPOSITE_TIPS[question.form]}</p>
+            <p className="text-muted-foreground">Each point on the circle is (cos, sin) of its angle.</p>
+          </div>
+        </div>
+      </Card>
+    )
+  }
+
+  if (question.kind === 'inverse') {
+    const [low, high] = PRINCIPAL_RANGES[question.func]
+    const value = getInverseValue(question).replace(/-/g, '−')
+    return (
+      <Card className="p-4 bg-secondary/10 border-secondary">
+        <div className="flex flex-col sm:flex-row items-center gap-4">
+          <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="w-full max-w-[260px]" role="img" aria-label="Unit circle with principal range">
+            <Axes />
+            <path d={arcPath(low, high, RADIUS)} fill="none" className="stroke-accent" strokeWidth={6} strokeLinecap="round" />
+            <text x={toPoint(low, RADIUS + 14)[0]} y={toPoint(low, RADIUS + 14)[1]} textAnchor="middle" className="fill-foreground text-[11px]">
+              {formatAngle(low, question.unit)}
+            </text>
+            <text x={toPoint(high, RADIUS + 14)[0]} y={toPoint(high, RADIUS + 14)[1]} textAnchor="middle" className="fill-foreground text-[11px]">
+              {formatAngle(high, question.unit)}
+            </text>
+          </svg>
+          <div className="text-sm space-y-2">
+            <p>
+              {question.func} gives the angle on the highlighted arc, from {formatAngle(low, question.unit)} to {formatAngle(high, question.unit)},
+              whose {INVERSE_READINGS[question.func]} is <strong>{value}</strong>.
+            </p>
+            <p className="text-muted-foreground">Find the reference angle from the special triangles, then pick the quadrant inside the arc.</p>
+          </div>
+        </div>
+      </Card>
+    )
+  }
+
+  const angle = question.angle
+  const normalized = normalizeAngle(angle)
+  const reference = getReferenceAngle(angle)
+  const drawnAngle = Math.abs(angle) <= 360 ? angle : normalized
+  const [pointX, pointY] = toPoint(normalized)
+  const x = coordinate('cos', angle)
+  const y = coordinate('sin', angle)
+  const axisAngle = normalized <= 90 || normalized >= 270 ? 0 : 180
+  const referenceFrom = axisAngle === 0 && normalized > 270 ? 360 : axisAngle
+
+  return (
+    <Card className="p-4 bg-secondary/10 border-secondary">
+      <div className="flex flex-col sm:flex-row items-center gap-4">
+        <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="w-full max-w-[260px]" role="img" aria-label={`Unit circle at ${formatAngle(angle)}`}>
+          <Axes />
+          {drawnAngle !== 0 && Math.abs(drawnAngle) !== 360 && (
+            <path d={arcPath(0, drawnAngle, 22)} fill="none" className="stroke-muted-foreground" strokeWidth={1.5} />
+          )}
+          {reference % 90 !== 0 && (
+            <>
+              <polygon
+                points={`${CENTER},${CENTER} ${pointX},${CENTER} ${pointX},${pointY}`}
+                className="fill-accent/15 stroke-accent"
+                strokeWidth={1.5}
+              />
+              <path d={arcPath(referenceFrom, normalized, 40)} fill="none" className="stroke-accent" strokeWidth={2} />
+              <text x={toPoint((referenceFrom + normalized) / 2, 54)[0]} y={toPoint((referenceFrom + normalized) / 2, 54)[1]} textAnchor="middle" className="fill-accent text-[11px] font-semibold">
+                {formatAngle(reference, question.unit)}
+              </text>
+              <text x={(CENTER + pointX) / 2} y={CENTER + (pointY < CENTER ? 14 : -6)} textAnchor="middle" className="fill-foreground text-[11px]">
+                {x}
+              </text>
+              <text x={pointX + (pointX > CENTER ? 6 : -6)} y={(CENTER + pointY) / 2} textAnchor={pointX > CENTER ? 'start' : 'end'} className="fill-foreground text-[11px]">
+                {y}
+              </text>
+            </>
+          )}
+          <line x1={CENTER} y1={CENTER} x2={pointX} y2={pointY} className="stroke-foreground" strokeWidth={2} />
+          <circle cx={pointX} cy={pointY} r={4} className="fill-destructive" />
+          <text x={pointX + (pointX >= CENTER ? 8 : -8)} y={pointY + (pointY <= CENTER ? -8 : 16)} textAnchor={pointX >= CENTER ? 'start' : 'end'} className="fill-foreground text-[11px] font-medium">
+            ({x}, {y})
+          </text>
+        </svg>
+        <div className="text-sm space-y-2 flex flex-col items-center sm:items-start">
+          <p>{describeAngle(angle, question.unit)}</p>
+          <p>
+            The point on the circle is ({x}, {y}), and {question.func} reads <strong>{READINGS[question.func]}</strong>.
+          </p>
+          <SpecialTriangle reference={reference} />
+        </div>
+      </div>
+    </Card>
+  )
+}
@@ -0,0 +1,26 @@
+import { Button } from '@/components/ui/button'
+
+interface WorkedSolutionProps {
+  steps: string[]
+  onContinue?: () => void
+}
+
+export function WorkedSolution({ steps, onContinue }: WorkedSolutionProps) {
+  return (
+    <div className="relative z-10 mt-4 rounded-lg border bg-card/90 p-4 text-left">
+      <div className="text-xs font-semibold uppercase tracking-wide text-muted-foreground mb-2">
+        Worked solution
+      </div>
+      <ol className="space-y-1 text-sm sm:text-base text-foreground">
+        {steps.map((step, index) => (
+          <li key={index}>{step}</li>
+        ))}
+      </ol>
+      {onContinue && (
+        <Button onClick={onContinue} size="sm" className="mt-3 w-full" autoFocus>
+          Next question
+        </Button>
+      )}
+    </div>
+  )
+}
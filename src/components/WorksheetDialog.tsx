@@ -0,0 +1,184 @@
+import { useState, useMemo } from 'react'
+import { createPortal, flushSync } from 'react-dom'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Printer, Shuffle } from '@phosphor-icons/react'
+import { UnitSetting } from '@/lib/trig'
+import { formatPracticeQuestion } from '@/lib/questions'
+import { DECKS, DEFAULT_DECK_ID, getDeck } from '@/lib/decks'
+import { WorksheetConfig, WorksheetItem, WORKSHEET_COUNTS, createWorksheet } from '@/lib/worksheet'
+import { generateSeed } from '@/lib/random'
+
+type PrintPart = 'questions' | 'key'
+
+interface WorksheetPageProps {
+  config: WorksheetConfig
+  items: WorksheetItem[]
+  part: PrintPart
+}
+
+function WorksheetPage({ config, items, part }: WorksheetPageProps) {
+  const deck = getDeck(config.deckId)
+  return (
+    <div className="print-sheet hidden print:block bg-white text-black p-8 text-[12pt]">
+      <header className="mb-6 border-b border-black pb-3">
+        <h1 className="text-2xl font-bold">
+          {deck.name} worksheet{part === 'key' && ' — Answer key'}
+        </h1>
+        <p className="text-sm">
+          {items.length} questions · seed {config.seed} · {config.unit}
+        </p>
+        {part === 'questions' && (
+          <div className="mt-4 flex gap-12 text-sm">
+            <span>Name: ______________________</span>
+            <span>Date: ____________</span>
+          </div>
+        )}
+      </header>
+      <ol className="grid grid-cols-2 gap-x-12 gap-y-6">
+        {items.map((item) => (
+          <li key={item.number} className="flex gap-2 break-inside-avoid">
+            <span className="w-8 text-right">{item.number}.</span>
+            <span>
+              {formatPracticeQuestion(item.question)} = {part === 'key' ? <strong>{item.answer}</strong> : '______________'}
+            </span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+}
+
+interface WorksheetDialogProps {
+  unit: UnitSetting
+}
+
+export function WorksheetDialog({ unit }: WorksheetDialogProps) {
+  const [config, setConfig] = useState<WorksheetConfig>(() => ({
+    deckId: DEFAULT_DECK_ID,
+    count: 20,
+    seed: generateSeed(),
+    unit
+  }))
+  const [printPart, setPrintPart] = useState<PrintPart | null>(null)
+  const items = useMemo(() => createWorksheet(config), [config])
+
+  // The sheet is only mounted while printing; print CSS hides everything else.
+  const print = (part: PrintPart) => {
+    flushSync(() => setPrintPart(part))
+    window.print()
+    setPrintPart(null)
+  }
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <Printer size={18} />
+          Worksheet
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[85vh]">
+        <DialogHeader>
+          <DialogTitle>Printable Worksheet</DialogTitle>
+        </DialogHeader>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          <div className="space-y-1 col-span-2">
+            <Label>Deck</Label>
+            <Select value={config.deckId} onValueChange={(deckId) => setConfig({ ...config, deckId })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DECKS.map((deck) => (
+                  <SelectItem key={deck.id} value={deck.id}>
+                    {deck.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Questions</Label>
+            <Select
+              value={String(config.count)}
+              onValueChange={(value) => setConfig({ ...config, count: Number(value) })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WORKSHEET_COUNTS.map((count) => (
+                  <SelectItem key={count} value={String(count)}>
+                    {count}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Units</Label>
+            <Select value={config.unit} onValueChange={(value) => setConfig({ ...config, unit: value as UnitSetting })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="degrees">Degrees</SelectItem>
+                <SelectItem value="radians">Radians</SelectItem>
+                <SelectItem value="mixed">Mixed</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1 col-span-2 sm:col-span-4">
+            <Label htmlFor="worksheet-seed">Seed</Label>
+            <div className="flex gap-2">
+              <Input
+                id="worksheet-seed"
+                value={config.seed}
+                onChange={(e) => setConfig({ ...config, seed: e.target.value })}
+              />
+              <Button
+                type="button"
+                variant="outline"
+                className="gap-2"
+                onClick={() => setConfig({ ...config, seed: generateSeed() })}
+              >
+                <Shuffle size={16} />
+                New
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Reuse a seed with the same deck and units to reprint an identical worksheet
+            </p>
+          </div>
+        </div>
+        <ScrollArea className="h-[30vh] rounded-md border-2 p-3">
+          <ol className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-1 text-sm">
+            {items.map((item) => (
+              <li key={item.number} className="flex gap-2">
+                <span className="w-6 text-right text-muted-foreground">{item.number}.</span>
+                <span className="flex-1">{formatPracticeQuestion(item.question)}</span>
+                <span className="text-muted-foreground">{item.answer}</span>
+              </li>
+            ))}
+          </ol>
+        </ScrollArea>
+        <div className="flex gap-2">
+          <Button className="flex-1 gap-2" onClick={() => print('questions')} disabled={!config.seed.trim()}>
+            <Printer size={16} />
+            Print questions
+          </Button>
+          <Button variant="outline" className="flex-1 gap-2" onClick={() => print('key')} disabled={!config.seed.trim()}>
+            <Printer size={16} />
+            Print answer key
+          </Button>
+        </div>
+        {printPart && createPortal(<WorksheetPage config={config} items={items} part={printPart} />, document.body)}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,130 @@
+import { Stats, HistoryEntry } from '@/lib/history'
+import { Schedule, getCardKey } from '@/lib/scheduler'
+import { QuizSession } from '@/lib/quiz'
+
+// Everything a criterion may look at, as it stands right after an answer.
+export interface AchievementContext {
+  stats: Stats
+  history: HistoryEntry[]
+  schedule: Schedule
+  dayStreak: number
+  finishedQuiz?: QuizSession
+}
+
+export interface Achievement {
+  id: string
+  title: string
+  description: string
+  emoji: string
+  isUnlocked: (context: AchievementContext) => boolean
+}
+
+// Achievement id → when it was unlocked.
+export type Unlocks = Record<string, number>
+
+// A card counts as mastered once it has climbed to the one-day box.
+export const MASTERED_BOX = 3
+export const SPEED_WINDOW = 20
+export const SPEED_TARGET_MS = 2000
+
+const FIRST_QUADRANT_CARDS = ['sin', 'cos', 'tan'].flatMap(func => [30, 45, 60].map(angle => getCardKey({ func, angle })))
+
+function countCorrect(history: HistoryEntry[], matches: (entry: HistoryEntry) => boolean): number {
+  return history.filter(entry => entry.isCorrect && matches(entry)).length
+}
+
+export const ACHIEVEMENTS: Achievement[] = [
+  {
+    id: 'first-correct',
+    title: 'First Steps',
+    description: 'Answer your first question correctly',
+    emoji: '🌱',
+    isUnlocked: ({ stats }) => stats.correct >= 1
+  },
+  {
+    id: 'streak-10',
+    title: '10 in a Row',
+    description: 'Get 10 answers right in a row without hints',
+    emoji: '🔥',
+    isUnlocked: ({ stats }) => stats.currentStreak >= 10
+  },
+  {
+    id: 'streak-25',
+    title: 'Unstoppable',
+    description: 'Get 25 answers right in a row without hints',
+    emoji: '🚀',
+    isUnlocked: ({ stats }) => stats.currentStreak >= 25
+  },
+  {
+    id: 'first-quadrant',
+    title: 'First Quadrant Mastered',
+    description: 'Master all 9 sin, cos and tan cards for 30°, 45° and 60°',
+    emoji: '🧭',
+    isUnlocked: ({ schedule }) => FIRST_QUADRANT_CARDS.every(key => (schedule[key]?.box ?? 0) >= MASTERED_BOX)
+  },
+  {
+    id: 'perfect-quiz',
+    title: 'Flawless',
+    description: 'Score 100% on a quiz of 20 or more questions',
+    emoji: '💯',
+    isUnlocked: ({ finishedQuiz }) =>
+      !!finishedQuiz &&
+      finishedQuiz.questions.length >= 20 &&
+      finishedQuiz.answers.length === finishedQuiz.questions.length &&
+      finishedQuiz.answers.every(answer => answer.isCorrect)
+  },
+  {
+    id: 'speed',
+    title: 'Lightning Reflexes',
+    description: `Answer ${SPEED_WINDOW} in a row correctly, averaging under ${SPEED_TARGET_MS / 1000} seconds`,
+    emoji: '⚡',
+    isUnlocked: ({ history }) => {
+      const recent = history.slice(0, SPEED_WINDOW)
+      if (recent.length < SPEED_WINDOW || recent.some(entry => !entry.isCorrect || entry.durationMs === undefined)) {
+        return false
+      }
+      const total = recent.reduce((sum, entry) => sum + (entry.durationMs ?? 0), 0)
+      return total / recent.length < SPEED_TARGET_MS
+    }
+  },
+  {
+    id: 'century',
+    title: 'Century',
+    description: 'Answer 100 questions correctly',
+    emoji: '🏅',
+    isUnlocked: ({ stats }) => stats.correct >= 100
+  },
+  {
+    id: 'radians',
+    title: 'Radian Native',
+    description: 'Answer 25 radian questions correctly',
+    emoji: '🥧',
+    isUnlocked: ({ history }) => countCorrect(history, entry => entry.question.unit === 'radians') >= 25
+  },
+  {
+    id: 'inverse',
+    title: 'Principal Values',
+    description: 'Answer 25 inverse-function questions correctly',
+    emoji: '↩️',
+    isUnlocked: ({ history }) => countCorrect(history, entry => entry.question.kind === 'inverse') >= 25
+  },
+  {
+    id: 'week-streak',
+    title: 'Week Warrior',
+    description: 'Meet your daily goal 7 days in a row',
+    emoji: '📅',
+    isUnlocked: ({ dayStreak }) => dayStreak >= 7
+  },
+]
+
+export function findNewAchievements(context: AchievementContext, unlocks: Unlocks): Achievement[] {
+  return ACHIEVEMENTS.filter(achievement => !unlocks[achievement.id] && achievement.isUnlocked(context))
+}
+
+export function addUnlocks(unlocks: Unlocks, achievements: Achievement[], now: number = Date.now()): Unlocks {
+  const updated = { ...unlocks }
+  for (const achievement of achievements) {
+    updated[achievement.id] = updated[achievement.id] ?? now
+  }
+  return updated
+}
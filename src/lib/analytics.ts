@@ -0,0 +1,122 @@
+import { FUNCTIONS } from '@/lib/trig'
+import { INVERSE_FUNCTIONS } from '@/lib/inverse'
+import { HistoryEntry, HistoryRollup, EMPTY_ROLLUP } from '@/lib/history'
+import { PracticeQuestion } from '@/lib/questions'
+import { getCardKey } from '@/lib/scheduler'
+
+export interface CardSummary {
+  key: string
+  question: PracticeQuestion
+  func: string
+  angle: number
+  attempts: number
+  correct: number
+  misses: number
+  accuracy: number
+  medianMs: number | null
+}
+
+export interface SessionSummary {
+  start: number
+  end: number
+  attempts: number
+  correct: number
+  accuracy: number
+}
+
+export interface Heatmap {
+  functions: string[]
+  angles: number[]
+  cells: Record<string, CardSummary>
+}
+
+// Answers more than this far apart belong to different practice sessions.
+export const SESSION_GAP_MS = 30 * 60 * 1000
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle]
+}
+
+// Rolled-up answers count towards attempts and accuracy, but their response
+// times were not kept.
+export function summarizeCards(history: HistoryEntry[], rollup: HistoryRollup = EMPTY_ROLLUP): Record<string, CardSummary> {
+  const grouped: Record<string, HistoryEntry[]> = {}
+  for (const entry of history) {
+    const key = getCardKey(entry.question)
+    if (!grouped[key]) grouped[key] = []
+    grouped[key].push(entry)
+  }
+
+  const summaries: Record<string, CardSummary> = {}
+  for (const key of new Set([...Object.keys(grouped), ...Object.keys(rollup.cards)])) {
+    const entries = grouped[key] ?? []
+    const archived = rollup.cards[key]
+    const question = entries[0]?.question ?? archived.question
+    const attempts = entries.length + (archived?.attempts ?? 0)
+    const correct = entries.filter(entry => entry.isCorrect).length + (archived?.correct ?? 0)
+    const durations = entries
+      .map(entry => entry.durationMs)
+      .filter((duration): duration is number => typeof duration === 'number')
+    summaries[key] = {
+      key,
+      question,
+      func: question.func,
+      angle: question.angle,
+      attempts,
+      correct,
+      misses: attempts - correct,
+      accuracy: correct / attempts,
+      medianMs: median(durations)
+    }
+  }
+  return summaries
+}
+
+export function buildHeatmap(history: HistoryEntry[], rollup: HistoryRollup = EMPTY_ROLLUP): Heatmap {
+  const cells = summarizeCards(history, rollup)
+  // Triangle and expression cards have no cell of their own in the
+  // function × angle grid.
+  const seen = Object.values(cells).filter(card => card.question.kind !== 'triangle' && card.question.kind !== 'composite')
+  const order: string[] = [...FUNCTIONS, ...INVERSE_FUNCTIONS]
+
+  return {
+    functions: order.filter(func => seen.some(card => card.func === func)),
+    angles: [...new Set(seen.map(card => card.angle))].sort((a, b) => a - b),
+    cells
+  }
+}
+
+export function summarizeSessions(history: HistoryEntry[]): SessionSummary[] {
+  const chronological = [...history].sort((a, b) => a.timestamp - b.timestamp)
+  const sessions: SessionSummary[] = []
+
+  for (const entry of chronological) {
+    const current = sessions[sessions.length - 1]
+    if (current && entry.timestamp - current.end <= SESSION_GAP_MS) {
+      current.end = entry.timestamp
+      current.attempts++
+      current.correct += entry.isCorrect ? 1 : 0
+      current.accuracy = current.correct / current.attempts
+    } else {
+      sessions.push({
+        start: entry.timestamp,
+        end: entry.timestamp,
+        attempts: 1,
+        correct: entry.isCorrect ? 1 : 0,
+        accuracy: entry.isCorrect ? 1 : 0
+      })
+    }
+  }
+
+  return sessions
+}
+
+export function getMostMissed(history: HistoryEntry[], rollup: HistoryRollup = EMPTY_ROLLUP, limit = 5): CardSummary[] {
+  return Object.values(summarizeCards(history, rollup))
+    .filter(card => card.misses > 0)
+    .sort((a, b) => b.misses - a.misses || a.accuracy - b.accuracy)
+    .slice(0, limit)
+}
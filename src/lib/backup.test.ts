@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest'
+import { EMPTY_ROLLUP, EMPTY_STATS, rollUp } from '@/lib/history'
+import { BackupError, createBackup, exportJson, importBackup, parseBackup } from '@/lib/backup'
+import { historyEntry as entry } from '@/test/fixtures'
+
+const DAY = 24 * 60 * 60 * 1000
+
+const archived = rollUp(EMPTY_ROLLUP, [entry('a', 1 * DAY, true), entry('b', 2 * DAY, false), entry('c', 3 * DAY, true)])
+const recent = [entry('e', 11 * DAY, true), entry('d', 10 * DAY, true)]
+const stats = { correct: 4, total: 5, currentStreak: 2, bestStreak: 2 }
+
+describe('backups', () => {
+  it('round-trips the rollup', () => {
+    const backup = parseBackup(exportJson(createBackup({ stats, history: recent, rollup: archived })))
+    expect(backup.rollup).toEqual(archived)
+  })
+
+  it('gives backups from before rollups an empty one', () => {
+    const text = JSON.stringify({ format: 'trig-master', version: 4, exportedAt: 0, stats, history: recent })
+    expect(parseBackup(text).rollup).toEqual(EMPTY_ROLLUP)
+  })
+
+  it('rejects a malformed rollup', () => {
+    const text = JSON.stringify({ format: 'trig-master', version: 5, exportedAt: 0, stats, history: recent, rollup: { attempts: 'many' } })
+    expect(() => parseBackup(text)).toThrow(BackupError)
+  })
+
+  it('replaces the rollup along with the history', () => {
+    const backup = createBackup({ stats, history: recent, rollup: archived })
+    const current = { stats: EMPTY_STATS, history: [entry('z', 20 * DAY, false)], rollup: EMPTY_ROLLUP }
+    expect(importBackup(backup, current, 'replace')).toEqual({ stats, history: recent, rollup: archived })
+  })
+
+  it('counts rolled-up answers when a merge recomputes the stats', () => {
+    const backup = createBackup({ stats, history: recent, rollup: archived })
+    const current = { stats: EMPTY_STATS, history: [entry('z', 20 * DAY, false)], rollup: EMPTY_ROLLUP }
+    const merged = importBackup(backup, current, 'merge')
+    expect(merged.rollup).toEqual(archived)
+    expect(merged.history.map(item => item.id)).toEqual(['z', 'e', 'd'])
+    expect(merged.stats).toMatchObject({ correct: 4, total: 6, currentStreak: 0 })
+  })
+
+  it('adds rollups from separate periods and keeps one copy of overlapping ones', () => {
+    const later = rollUp(EMPTY_ROLLUP, [entry('x', 5 * DAY, true)])
+    const backup = createBackup({ stats, history: [], rollup: archived })
+    const separate = importBackup(backup, { stats: EMPTY_STATS, history: [], rollup: later }, 'merge')
+    expect(separate.rollup).toMatchObject({ attempts: 4, correct: 3, from: 1 * DAY, to: 5 * DAY })
+    expect(separate.stats).toMatchObject({ correct: 3, total: 4 })
+
+    const again = importBackup(backup, { stats: EMPTY_STATS, history: [], rollup: archived }, 'merge')
+    expect(again.rollup).toEqual(archived)
+  })
+
+  it('skips imported answers from a period this profile already rolled up', () => {
+    const backup = createBackup({ stats, history: [entry('b', 2 * DAY, false), ...recent], rollup: EMPTY_ROLLUP })
+    const merged = importBackup(backup, { stats: EMPTY_STATS, history: [], rollup: archived }, 'merge')
+    expect(merged.history.map(item => item.id)).toEqual(['e', 'd'])
+    expect(merged.stats).toMatchObject({ correct: 4, total: 5 })
+  })
+
+  describe('question validation', () => {
+    function parseQuestion(question: Record<string, unknown>) {
+      return () => parseBackup(JSON.stringify({
+        format: 'trig-master',
+        version: 5,
+        exportedAt: 0,
+        stats,
+        history: [{ ...entry('q', DAY, true), question }],
+        rollup: EMPTY_ROLLUP
+      }))
+    }
+
+    const triangle = { kind: 'triangle', func: 'sin', angle: 30, given: 'hypotenuse', length: 10, target: 'side', unit: 'degrees' }
+    const composite = { kind: 'composite', form: 'sum', func: 'tan', angle: 45, otherAngle: 135, unit: 'radians' }
+
+    it('accepts every kind of question', () => {
+      expect(parseQuestion({ func: 'sin', angle: 30 })).not.toThrow()
+      expect(parseQuestion({ kind: 'inverse', func: 'arcsin', angle: 30, unit: 'degrees' })).not.toThrow()
+      expect(parseQuestion(triangle)).not.toThrow()
+      expect(parseQuestion(composite)).not.toThrow()
+      expect(parseQuestion({ kind: 'composite', form: 'angle-sum', func: 'cos', angle: 75, unit: 'degrees' })).not.toThrow()
+    })
+
+    it('rejects unknown kinds, functions and units', () => {
+      expect(parseQuestion({ kind: 'matrix', func: 'sin', angle: 30, unit: 'degrees' })).toThrow(BackupError)
+      expect(parseQuestion({ kind: 'value', func: 'sinh', angle: 30, unit: 'degrees' })).toThrow(BackupError)
+      expect(parseQuestion({ kind: 'value', func: 'sin', angle: 30, unit: 'gradians' })).toThrow(BackupError)
+    })
+
+    it('rejects inverse questions with a value function or no unit', () => {
+      expect(parseQuestion({ kind: 'inverse', func: 'sin', angle: 30, unit: 'degrees' })).toThrow(BackupError)
+      expect(parseQuestion({ kind: 'inverse', func: 'arcsin', angle: 30 })).toThrow(BackupError)
+    })
+
+    it('rejects triangle questions missing what the figure needs', () => {
+      for (const field of ['given', 'length', 'target', 'unit']) {
+        expect(parseQuestion({ ...triangle, [field]: undefined }), field).toThrow('History entry 1 is not a valid answer record')
+      }
+      expect(parseQuestion({ ...triangle, func: 'sec' })).toThrow(BackupError)
+      expect(parseQuestion({ ...triangle, angle: 50 })).toThrow(BackupError)
+      expect(parseQuestion({ ...triangle, length: -2 })).toThrow(BackupError)
+    })
+
+    it('rejects composite questions missing their form or second angle', () => {
+      expect(parseQuestion({ ...composite, form: undefined })).toThrow(BackupError)
+      expect(parseQuestion({ ...composite, form: 'triple-angle' })).toThrow(BackupError)
+      expect(parseQuestion({ ...composite, otherAngle: undefined })).toThrow(BackupError)
+      expect(parseQuestion({ ...composite, form: 'angle-sum', angle: 80 })).toThrow(BackupError)
+    })
+  })
+})
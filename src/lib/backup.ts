@@ -0,0 +1,284 @@
+import { Stats, HistoryEntry, HistoryRollup, EMPTY_ROLLUP } from '@/lib/history'
+import { formatPracticeQuestion } from '@/lib/questions'
+import { FUNCTIONS } from '@/lib/trig'
+import { INVERSE_FUNCTIONS } from '@/lib/inverse'
+import { TRIANGLE_FUNCTIONS, TRIANGLE_ANGLES, TRIANGLE_SIDES } from '@/lib/triangle'
+import { COMPOSITE_FORMS, ANGLE_SUMS } from '@/lib/composite'
+import { SCHEMA_VERSION, migrateData } from '@/lib/migrations'
+
+export const BACKUP_FORMAT = 'trig-master'
+
+export type ImportStrategy = 'merge' | 'replace'
+
+export interface Backup {
+  format: typeof BACKUP_FORMAT
+  version: number
+  exportedAt: number
+  stats: Stats
+  history: HistoryEntry[]
+  rollup: HistoryRollup
+}
+
+// What a profile keeps: the counters, the recent history and the totals of
+// the answers rolled up out of it.
+export interface BackupData {
+  stats: Stats
+  history: HistoryEntry[]
+  rollup: HistoryRollup
+}
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'BackupError'
+  }
+}
+
+export function createBackup(data: BackupData, now: number = Date.now()): Backup {
+  return { format: BACKUP_FORMAT, version: SCHEMA_VERSION, exportedAt: now, ...data }
+}
+
+export function exportJson(backup: Backup): string {
+  return JSON.stringify(backup, null, 2)
+}
+
+const CSV_COLUMNS = [
+  'timestamp',
+  'question',
+  'kind',
+  'function',
+  'angle',
+  'unit',
+  'userAnswer',
+  'correctAnswer',
+  'isCorrect',
+  'durationMs',
+  'mistake',
+  'usedHint',
+]
+
+function escapeCsv(value: string | number | boolean | undefined): string {
+  const text = value === undefined ? '' : String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function exportCsv(history: HistoryEntry[]): string {
+  const rows = history.map(entry => [
+    new Date(entry.timestamp).toISOString(),
+    formatPracticeQuestion(entry.question),
+    entry.question.kind ?? 'value',
+    entry.question.func,
+    entry.question.angle,
+    entry.question.unit ?? 'degrees',
+    entry.userAnswer,
+    entry.correctAnswer,
+    entry.isCorrect,
+    entry.durationMs,
+    entry.mistake,
+    entry.usedHint ?? false,
+  ].map(escapeCsv).join(','))
+  return [CSV_COLUMNS.join(','), ...rows].join('\n')
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isOneOf(value: unknown, allowed: readonly unknown[]): boolean {
+  return allowed.includes(value)
+}
+
+// Checks every field a question of its kind needs to be shown and graded.
+// Value questions saved before radian mode have neither a kind nor a unit.
+function isQuestion(value: unknown): boolean {
+  if (!isRecord(value) || !Number.isFinite(value.angle)) return false
+  const hasUnit = isOneOf(value.unit, ['degrees', 'radians'])
+
+  switch (value.kind) {
+    case undefined:
+    case 'value':
+      return isOneOf(value.func, FUNCTIONS) && (hasUnit || value.unit === undefined)
+    case 'inverse':
+      return isOneOf(value.func, INVERSE_FUNCTIONS) && hasUnit
+    case 'triangle':
+      return hasUnit &&
+        isOneOf(value.func, TRIANGLE_FUNCTIONS) &&
+        isOneOf(value.angle, TRIANGLE_ANGLES) &&
+        isOneOf(value.given, TRIANGLE_SIDES) &&
+        isOneOf(value.target, ['side', 'angle']) &&
+        typeof value.length === 'number' && value.length > 0 && Number.isFinite(value.length)
+    case 'composite':
+      if (!hasUnit || !isOneOf(value.func, FUNCTIONS) || !isOneOf(value.form, COMPOSITE_FORMS)) return false
+      if (value.form === 'angle-sum') return Number(value.angle) in ANGLE_SUMS
+      if (value.form === 'sum' || value.form === 'difference') return Number.isFinite(value.otherAngle)
+      return true
+    default:
+      return false
+  }
+}
+
+function isHistoryEntry(value: unknown): value is HistoryEntry {
+  return isRecord(value) &&
+    isQuestion(value.question) &&
+    typeof value.userAnswer === 'string' &&
+    typeof value.correctAnswer === 'string' &&
+    typeof value.isCorrect === 'boolean' &&
+    Number.isFinite(value.timestamp)
+}
+
+function isCount(value: unknown): boolean {
+  return Number.isInteger(value) && Number(value) >= 0
+}
+
+function isRollup(value: unknown): value is HistoryRollup {
+  return isRecord(value) &&
+    isCount(value.attempts) &&
+    isCount(value.correct) &&
+    (value.from === null || Number.isFinite(value.from)) &&
+    (value.to === null || Number.isFinite(value.to)) &&
+    isRecord(value.cards) &&
+    Object.values(value.cards).every(card =>
+      isRecord(card) && isQuestion(card.question) && isCount(card.attempts) && isCount(card.correct)
+    )
+}
+
+function isStats(value: unknown): value is Stats {
+  return isRecord(value) &&
+    ['correct', 'total', 'currentStreak', 'bestStreak'].every(field => Number.isFinite(value[field]))
+}
+
+// Backups from older versions are migrated to the current schema after
+// they are checked. Throws BackupError describing the first problem found.
+export function parseBackup(text: string): Backup {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new BackupError('The file is not valid JSON')
+  }
+
+  if (!isRecord(data) || data.format !== BACKUP_FORMAT) {
+    throw new BackupError('The file is not a Trig Master backup')
+  }
+  const version = data.version
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    throw new BackupError('The backup has no schema version')
+  }
+  if (version > SCHEMA_VERSION) {
+    throw new BackupError('The backup was made by a newer version of Trig Master')
+  }
+  if (!Array.isArray(data.history)) {
+    throw new BackupError('The backup has no history')
+  }
+  const invalid = data.history.findIndex(entry => !isHistoryEntry(entry))
+  if (invalid !== -1) {
+    throw new BackupError(`History entry ${invalid + 1} is not a valid answer record`)
+  }
+  // Entries gained ids in version 4; older ones are given ids by the migration.
+  const missingId = version >= 4 ? data.history.findIndex(entry => typeof entry.id !== 'string') : -1
+  if (missingId !== -1) {
+    throw new BackupError(`History entry ${missingId + 1} has no id`)
+  }
+  if (!isStats(data.stats)) {
+    throw new BackupError('The backup stats are missing or malformed')
+  }
+
+  // Backups gained the rollup in version 5; older ones are given an empty one.
+  if (version >= 5 && !isRollup(data.rollup)) {
+    throw new BackupError('The backup rollup is missing or malformed')
+  }
+
+  const migrated = migrateData({
+    stats: data.stats,
+    history: data.history,
+    rollup: version >= 5 ? data.rollup as HistoryRollup : undefined
+  }, version)
+  return {
+    format: BACKUP_FORMAT,
+    version: SCHEMA_VERSION,
+    exportedAt: Number.isFinite(data.exportedAt) ? Number(data.exportedAt) : Date.now(),
+    stats: migrated.stats ?? data.stats,
+    history: migrated.history ?? [],
+    rollup: migrated.rollup ?? EMPTY_ROLLUP
+  }
+}
+
+function getEntryKey(entry: HistoryEntry): string {
+  return `${entry.timestamp}-${entry.question.func}-${entry.question.angle}`
+}
+
+// Importing the same backup twice leaves the history unchanged. Answers
+// from a period already rolled up are taken to be counted there.
+export function mergeHistory(
+  current: HistoryEntry[],
+  imported: HistoryEntry[],
+  rollup: HistoryRollup = EMPTY_ROLLUP
+): HistoryEntry[] {
+  const seen = new Set(current.map(getEntryKey))
+  const added = imported.filter(entry =>
+    !seen.has(getEntryKey(entry)) && (rollup.to === null || entry.timestamp > rollup.to)
+  )
+  return [...current, ...added].sort((a, b) => b.timestamp - a.timestamp)
+}
+
+// Rollups cannot be matched answer by answer. Ones covering separate periods
+// are added together; overlapping ones are taken to be the same answers
+// rolled up at different times, so the larger is kept.
+export function mergeRollups(current: HistoryRollup, imported: HistoryRollup): HistoryRollup {
+  if (current.from === null || current.to === null) return imported
+  if (imported.from === null || imported.to === null) return current
+  if (current.from <= imported.to && imported.from <= current.to) {
+    return imported.attempts > current.attempts ? imported : current
+  }
+
+  const cards = { ...current.cards }
+  for (const [key, card] of Object.entries(imported.cards)) {
+    const existing = cards[key]
+    cards[key] = existing
+      ? { ...existing, attempts: existing.attempts + card.attempts, correct: existing.correct + card.correct }
+      : card
+  }
+  return {
+    attempts: current.attempts + imported.attempts,
+    correct: current.correct + imported.correct,
+    from: Math.min(current.from, imported.from),
+    to: Math.max(current.to, imported.to),
+    cards
+  }
+}
+
+// Rebuilds the counters from a newest-first history and the rollup of older
+// answers. A correct answer made with a hint neither extends nor breaks a
+// streak, as in live practice.
+export function computeStats(
+  history: HistoryEntry[],
+  previousBest: number = 0,
+  rollup: HistoryRollup = EMPTY_ROLLUP
+): Stats {
+  let streak = 0
+  let bestStreak = previousBest
+  for (const entry of [...history].reverse()) {
+    if (!entry.isCorrect) {
+      streak = 0
+    } else if (!entry.usedHint) {
+      streak += 1
+      bestStreak = Math.max(bestStreak, streak)
+    }
+  }
+  return {
+    correct: rollup.correct + history.filter(entry => entry.isCorrect).length,
+    total: rollup.attempts + history.length,
+    currentStreak: streak,
+    bestStreak
+  }
+}
+
+export function importBackup(backup: Backup, current: BackupData, strategy: ImportStrategy): BackupData {
+  if (strategy === 'replace') {
+    return { stats: backup.stats, history: backup.history, rollup: backup.rollup }
+  }
+  const history = mergeHistory(current.history, backup.history, current.rollup)
+  const rollup = mergeRollups(current.rollup, backup.rollup)
+  const previousBest = Math.max(current.stats.bestStreak, backup.stats.bestStreak)
+  return { stats: computeStats(history, previousBest, rollup), history, rollup }
+}
@@ -0,0 +1,158 @@
+export type ChallengeMode = 'sprint' | 'survival' | 'target'
+
+export interface ChallengeConfig {
+  label: string
+  description: string
+}
+
+export interface ChallengeRun {
+  mode: ChallengeMode
+  startedAt: number
+  correct: number
+  answered: number
+  lives: number
+  endedAt?: number
+}
+
+export interface LeaderboardEntry {
+  score: number
+  correct: number
+  answered: number
+  durationMs: number
+  completed: boolean
+  timestamp: number
+}
+
+export type Leaderboard = Record<ChallengeMode, LeaderboardEntry[]>
+
+export const SPRINT_DURATION_MS = 60 * 1000
+export const SURVIVAL_LIVES = 3
+export const TARGET_CORRECT = 20
+export const LEADERBOARD_SIZE = 10
+
+export const CHALLENGE_MODES: ChallengeMode[] = ['sprint', 'survival', 'target']
+
+export const CHALLENGES: Record<ChallengeMode, ChallengeConfig> = {
+  sprint: {
+    label: '60-second sprint',
+    description: 'Answer as many as you can before the clock runs out'
+  },
+  survival: {
+    label: 'Survival',
+    description: `Keep going until you miss ${SURVIVAL_LIVES} questions`
+  },
+  target: {
+    label: `Target ${TARGET_CORRECT}`,
+    description: `Get ${TARGET_CORRECT} correct as fast as you can`
+  },
+}
+
+export const EMPTY_LEADERBOARD: Leaderboard = {
+  sprint: [],
+  survival: [],
+  target: [],
+}
+
+export function startChallenge(mode: ChallengeMode, now: number = Date.now()): ChallengeRun {
+  return {
+    mode,
+    startedAt: now,
+    correct: 0,
+    answered: 0,
+    lives: mode === 'survival' ? SURVIVAL_LIVES : 0
+  }
+}
+
+export function getRemainingMs(run: ChallengeRun, now: number = Date.now()): number {
+  return Math.max(0, SPRINT_DURATION_MS - ((run.endedAt ?? now) - run.startedAt))
+}
+
+export function getElapsedMs(run: ChallengeRun, now: number = Date.now()): number {
+  return (run.endedAt ?? now) - run.startedAt
+}
+
+export function isTimeUp(run: ChallengeRun, now: number = Date.now()): boolean {
+  return run.mode === 'sprint' && getRemainingMs(run, now) === 0
+}
+
+export function recordChallengeAnswer(
+  run: ChallengeRun,
+  isCorrect: boolean,
+  now: number = Date.now()
+): ChallengeRun {
+  const updated: ChallengeRun = {
+    ...run,
+    correct: run.correct + (isCorrect ? 1 : 0),
+    answered: run.answered + 1,
+    lives: run.mode === 'survival' && !isCorrect ? run.lives - 1 : run.lives
+  }
+
+  const isOver =
+    (updated.mode === 'survival' && updated.lives <= 0) ||
+    (updated.mode === 'target' && updated.correct >= TARGET_CORRECT) ||
+    isTimeUp(updated, now)
+
+  return isOver ? endChallenge(updated, now) : updated
+}
+
+export function endChallenge(run: ChallengeRun, now: number = Date.now()): ChallengeRun {
+  const endedAt = run.mode === 'sprint' ? Math.min(now, run.startedAt + SPRINT_DURATION_MS) : now
+  return run.endedAt ? run : { ...run, endedAt }
+}
+
+// Sprint and survival rank by correct answers; target ranks finished runs by
+// time, so its score is the duration and lower is better.
+export function toLeaderboardEntry(run: ChallengeRun): LeaderboardEntry {
+  const durationMs = getElapsedMs(run)
+  return {
+    score: run.mode === 'target' ? durationMs : run.correct,
+    correct: run.correct,
+    answered: run.answered,
+    durationMs,
+    completed: isCompleted(run),
+    timestamp: run.endedAt ?? Date.now()
+  }
+}
+
+// Runs ended early with "End run" are summarised but never ranked.
+export function isCompleted(run: ChallengeRun): boolean {
+  switch (run.mode) {
+    case 'sprint':
+      return getRemainingMs(run) === 0
+    case 'survival':
+      return run.lives <= 0
+    case 'target':
+      return run.correct >= TARGET_CORRECT
+  }
+}
+
+function compareEntries(mode: ChallengeMode, a: LeaderboardEntry, b: LeaderboardEntry): number {
+  if (mode === 'target') return a.score - b.score
+  return b.score - a.score || a.durationMs - b.durationMs
+}
+
+export function addToLeaderboard(
+  leaderboard: Leaderboard,
+  mode: ChallengeMode,
+  entry: LeaderboardEntry
+): Leaderboard {
+  if (!entry.completed) return leaderboard
+  const entries = [...(leaderboard[mode] ?? []), entry]
+    .sort((a, b) => compareEntries(mode, a, b))
+    .slice(0, LEADERBOARD_SIZE)
+  return { ...leaderboard, [mode]: entries }
+}
+
+export function getRank(leaderboard: Leaderboard, mode: ChallengeMode, entry: LeaderboardEntry): number | null {
+  const index = (leaderboard[mode] ?? []).findIndex(candidate => candidate.timestamp === entry.timestamp)
+  return index === -1 ? null : index + 1
+}
+
+export function formatDuration(ms: number): string {
+  const totalSeconds = ms / 1000
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds - minutes * 60
+  return minutes > 0
+    ? `${minutes}:${seconds.toFixed(1).padStart(4, '0')}`
+    : `${seconds.toFixed(1)}s`
+}
@@ -0,0 +1,140 @@
+import { Question, formatAngle, getCorrectAnswers, isUndefinedValue } from '@/lib/trig'
+import { InverseQuestion, PRINCIPAL_ANGLES, getMirrorAngle } from '@/lib/inverse'
+import { TriangleQuestion, TRIANGLE_ANGLES, getSideLength, getTriangleAnswer, getUnknownSide, getUnusedSide } from '@/lib/triangle'
+import { getCompositeAnswer, getCompositeDistractors } from '@/lib/composite'
+import { PracticeQuestion } from '@/lib/questions'
+import { COFUNCTIONS, RECIPROCALS, swapRadicals } from '@/lib/mistakes'
+import { parseExpression, evaluateExpression } from '@/lib/expression'
+
+export interface Choice {
+  value: string
+  label: string
+}
+
+export const CHOICE_COUNT = 5
+
+// Values students mix up with the special ones; used to top up the choices
+// when the targeted distractors run out.
+const COMMON_VALUES = ['0', '1/2', '√2/2', '√3/2', '√3/3', '1', '√3', '√2', '2√3/3', '2']
+
+function toLabel(value: string): string {
+  return value.replace(/-/g, '−')
+}
+
+function negate(value: string): string {
+  return value.startsWith('-') ? value.slice(1) : `-${value}`
+}
+
+function valueKey(value: string): string {
+  if (value === 'undefined') return value
+  return evaluateExpression(parseExpression(value)).toFixed(6)
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const shuffled = [...items]
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    const swap = shuffled[i]
+    shuffled[i] = shuffled[j]
+    shuffled[j] = swap
+  }
+  return shuffled
+}
+
+function canonicalValue(question: Question): string {
+  return isUndefinedValue(question) ? 'undefined' : getCorrectAnswers(question)[0]
+}
+
+function valueCandidates(question: Question, random: () => number): string[] {
+  const correct = canonicalValue(question)
+  const cofunction = canonicalValue({ func: COFUNCTIONS[question.func], angle: question.angle })
+  const reciprocal = canonicalValue({ func: RECIPROCALS[question.func], angle: question.angle })
+  const swapped = swapRadicals(correct)
+
+  const targeted = [cofunction, reciprocal, swapped]
+  if (correct !== 'undefined' && correct !== '0') targeted.push(negate(correct))
+  if (cofunction !== 'undefined' && cofunction !== '0') targeted.push(negate(cofunction))
+  targeted.push(correct === 'undefined' ? '0' : 'undefined')
+
+  const sign = correct.startsWith('-') ? -1 : 1
+  const filler = shuffle(COMMON_VALUES, random).map(value => (sign < 0 && value !== '0' ? negate(value) : value))
+  return [correct, ...targeted, ...filler]
+}
+
+function inverseCandidates(question: InverseQuestion, random: () => number): number[] {
+  const targeted = [getMirrorAngle(question), 90 - question.angle, -question.angle, question.angle + 90]
+  const filler = shuffle(PRINCIPAL_ANGLES[question.func], random)
+  return [question.angle, ...targeted, ...filler]
+}
+
+// The right side read off the wrong special triangle, the side left out of the
+// ratio, and the given length itself.
+function triangleCandidates(question: TriangleQuestion): string[] {
+  const unknown = getUnknownSide(question)
+  const otherAngles = TRIANGLE_ANGLES.filter(angle => angle !== question.angle)
+    .map(angle => getSideLength({ ...question, angle }, unknown))
+  const correct = getTriangleAnswer(question)
+  const swapped = swapRadicals(correct)
+  return [
+    correct,
+    getSideLength(question, getUnusedSide(question)),
+    ...otherAngles,
+    swapped,
+    String(question.length),
+    String(question.length * 2),
+  ]
+}
+
+function pickDistinct<T>(candidates: T[], key: (candidate: T) => string, count: number): T[] {
+  const seen = new Set<string>()
+  const picked: T[] = []
+  for (const candidate of candidates) {
+    const candidateKey = key(candidate)
+    if (seen.has(candidateKey)) continue
+    seen.add(candidateKey)
+    picked.push(candidate)
+    if (picked.length === count) break
+  }
+  return picked
+}
+
+// Builds the correct answer plus believable distractors taken from the usual
+// slips (co-function, reciprocal, opposite sign, √2/√3 swap, wrong quadrant),
+// in random order. The correct answer is always the first candidate, so it is
+// never dropped.
+export function generateChoices(
+  question: PracticeQuestion,
+  count: number = CHOICE_COUNT,
+  random: () => number = Math.random
+): Choice[] {
+  if (question.kind === 'triangle' && question.target === 'angle') {
+    const candidates = [question.angle, 90 - question.angle, ...shuffle([...TRIANGLE_ANGLES, 90], random)]
+    const angles = pickDistinct(candidates, angle => String(angle), count)
+    return shuffle(angles, random).map(angle => {
+      const label = formatAngle(angle, question.unit)
+      return { value: label, label }
+    })
+  }
+
+  if (question.kind === 'triangle') {
+    const values = pickDistinct(triangleCandidates(question), valueKey, count)
+    return shuffle(values, random).map(value => ({ value, label: value }))
+  }
+
+  if (question.kind === 'composite') {
+    const candidates = [getCompositeAnswer(question), ...getCompositeDistractors(question), ...shuffle(COMMON_VALUES, random)]
+    const values = pickDistinct(candidates, valueKey, count)
+    return shuffle(values, random).map(value => ({ value, label: toLabel(value) }))
+  }
+
+  if (question.kind === 'inverse') {
+    const angles = pickDistinct(inverseCandidates(question, random), angle => String(angle), count)
+    return shuffle(angles, random).map(angle => {
+      const label = formatAngle(angle, question.unit)
+      return { value: label, label }
+    })
+  }
+
+  const values = pickDistinct(valueCandidates(question, random), valueKey, count)
+  return shuffle(values, random).map(value => ({ value, label: toLabel(value) }))
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest'
+import {
+  ANGLE_SUMS,
+  CompositeQuestion,
+  formatExact,
+  getCompositeAnswer,
+  getCompositeValue,
+  multiply,
+  parseSpecialValue,
+} from '@/lib/composite'
+
+function product(a: string, b: string): string {
+  return formatExact(multiply(parseSpecialValue(a), parseSpecialValue(b)))
+}
+
+describe('exact arithmetic', () => {
+  it('multiplies radicals, taking out every square factor', () => {
+    expect(product('√6', '√6')).toBe('6')
+    expect(product('√2', '√3')).toBe('√6')
+    expect(product('√2', '√6')).toBe('2√3')
+    expect(product('√3', '√6')).toBe('3√2')
+    expect(product('-√3/2', '√3/2')).toBe('-3/4')
+  })
+})
+
+describe('angle sums', () => {
+  it('agree with the floating-point values', () => {
+    for (const angle of Object.keys(ANGLE_SUMS).map(Number)) {
+      for (const func of ['sin', 'cos'] as const) {
+        const question: CompositeQuestion = { kind: 'composite', form: 'angle-sum', func, angle, unit: 'degrees' }
+        expect(getCompositeValue(question)).toBeCloseTo(Math[func]((angle * Math.PI) / 180), 9)
+      }
+    }
+  })
+
+  it('are written largest radical first', () => {
+    expect(getCompositeAnswer({ kind: 'composite', form: 'angle-sum', func: 'cos', angle: 15, unit: 'degrees' })).toBe('(√6+√2)/4')
+  })
+})
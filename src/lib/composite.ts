@@ -0,0 +1,382 @@
+import {
+  Angle,
+  AngleUnit,
+  TrigFunction,
+  GradingPolicy,
+  DEFAULT_GRADING_POLICY,
+  FUNCTIONS,
+  QUADRANT_ANGLES,
+  checkValue,
+  formatAngle,
+  gcd,
+  getCorrectAnswers,
+  isUndefinedAnswer,
+} from '@/lib/trig'
+import type { GradeResult } from '@/lib/questions'
+import { parseExpression, evaluateExpression } from '@/lib/expression'
+import { Schedule, pickCard } from '@/lib/scheduler'
+import { Random } from '@/lib/random'
+import { explainNearMiss } from '@/lib/mistakes'
+
+export type CompositeForm = 'pythagorean' | 'double-angle' | 'sum' | 'difference' | 'angle-sum'
+
+// An expression built from special values. `func` and `angle` lead the
+// expression; sums and differences of two values add `otherAngle`.
+export interface CompositeQuestion {
+  kind: 'composite'
+  form: CompositeForm
+  func: TrigFunction
+  angle: Angle
+  otherAngle?: Angle
+  unit: AngleUnit
+}
+
+export const COMPOSITE_FORMS: CompositeForm[] = ['pythagorean', 'double-angle', 'sum', 'difference', 'angle-sum']
+
+// Angles off the axes, where all six functions are defined.
+export const COMPOSITE_ANGLES: Angle[] = QUADRANT_ANGLES.filter(angle => angle % 90 !== 0)
+
+const FORM_FUNCTIONS: Record<CompositeForm, TrigFunction[]> = {
+  pythagorean: ['sin', 'sec', 'csc'],
+  'double-angle': ['sin', 'cos'],
+  sum: FUNCTIONS,
+  difference: FUNCTIONS,
+  'angle-sum': ['sin', 'cos'],
+}
+
+// Angles reached only through a sum or difference of two special angles.
+export const ANGLE_SUMS: Record<number, [Angle, Angle]> = {
+  15: [45, -30],
+  75: [45, 30],
+  105: [60, 45],
+  165: [120, 45],
+  195: [150, 45],
+  255: [210, 45],
+  285: [240, 45],
+  345: [300, 45],
+}
+
+// The identity partner of each Pythagorean leading function: sin² + cos² = 1,
+// sec² − tan² = 1 and csc² − cot² = 1.
+const PYTHAGOREAN_PARTNERS: Partial<Record<TrigFunction, TrigFunction>> = {
+  sin: 'cos',
+  sec: 'tan',
+  csc: 'cot',
+}
+
+const SQUARE = '²'
+const MINUS = '−'
+
+// An exact value (a + b√2 + c√3 + d√6) / denominator, which covers every
+// sum, difference and product of the special values.
+interface ExactValue {
+  coefficients: [number, number, number, number]
+  denominator: number
+}
+
+const ROOTS = [1, 2, 3, 6]
+
+function exact(coefficients: [number, number, number, number], denominator = 1): ExactValue {
+  const sign = denominator < 0 ? -1 : 1
+  const divisor = coefficients.reduce((result, coefficient) => gcd(result, coefficient), denominator) || 1
+  return {
+    coefficients: coefficients.map(coefficient => (sign * coefficient) / divisor) as ExactValue['coefficients'],
+    denominator: Math.abs(denominator) / divisor
+  }
+}
+
+// Reads the canonical special values: 0, 1/2, √3/2, 2√3/3, -√2 and so on.
+export function parseSpecialValue(value: string): ExactValue {
+  const match = value.match(/^(-)?(\d*)(?:√(\d))?(?:\/(\d+))?$/)
+  if (!match) throw new Error(`Not a special value: ${value}`)
+  const [, sign, coefficient, root, denominator] = match
+  const coefficients: ExactValue['coefficients'] = [0, 0, 0, 0]
+  coefficients[ROOTS.indexOf(root ? Number(root) : 1)] = (sign ? -1 : 1) * (coefficient ? Number(coefficient) : 1)
+  return exact(coefficients, denominator ? Number(denominator) : 1)
+}
+
+function add(a: ExactValue, b: ExactValue, sign: 1 | -1 = 1): ExactValue {
+  return exact(
+    a.coefficients.map((coefficient, i) => coefficient * b.denominator + sign * b.coefficients[i] * a.denominator) as ExactValue['coefficients'],
+    a.denominator * b.denominator
+  )
+}
+
+export function multiply(a: ExactValue, b: ExactValue): ExactValue {
+  const coefficients: ExactValue['coefficients'] = [0, 0, 0, 0]
+  a.coefficients.forEach((left, i) => {
+    b.coefficients.forEach((right, j) => {
+      // √m · √n = k√r, where k² is the square part of m · n.
+      const product = ROOTS[i] * ROOTS[j]
+      const square = [6, 3, 2].find(factor => product % (factor * factor) === 0) ?? 1
+      coefficients[ROOTS.indexOf(product / (square * square))] += left * right * square
+    })
+  })
+  return exact(coefficients, a.denominator * b.denominator)
+}
+
+function scale(value: ExactValue, numerator: number, denominator = 1): ExactValue {
+  return exact(value.coefficients.map(coefficient => coefficient * numerator) as ExactValue['coefficients'], value.denominator * denominator)
+}
+
+function toNumber(value: ExactValue): number {
+  return value.coefficients.reduce((sum, coefficient, i) => sum + coefficient * Math.sqrt(ROOTS[i]), 0) / value.denominator
+}
+
+// Largest radical first, but never leading with a minus when a positive term
+// exists: (√6+√2)/4, 2-√3, (1-√3)/2.
+export function formatExact(value: ExactValue): string {
+  const terms = [3, 2, 1, 0]
+    .filter(i => value.coefficients[i] !== 0)
+    .map(i => ({ coefficient: value.coefficients[i], root: ROOTS[i] }))
+  if (terms.length === 0) return '0'
+  const ordered = [...terms.filter(term => term.coefficient > 0), ...terms.filter(term => term.coefficient < 0)]
+  const body = ordered.map((term, index) => {
+    const size = Math.abs(term.coefficient)
+    const magnitude = term.root === 1 ? String(size) : `${size === 1 ? '' : size}√${term.root}`
+    if (term.coefficient < 0) return `-${magnitude}`
+    return index === 0 ? magnitude : `+${magnitude}`
+  }).join('')
+  if (value.denominator === 1) return body
+  return terms.length > 1 ? `(${body})/${value.denominator}` : `${body}/${value.denominator}`
+}
+
+function specialValue(func: TrigFunction, angle: Angle): ExactValue {
+  return parseSpecialValue(getCorrectAnswers({ func, angle })[0])
+}
+
+function show(value: ExactValue): string {
+  return formatExact(value).replace(/-/g, MINUS)
+}
+
+// Brackets a value that is about to be squared or multiplied.
+function factor(value: ExactValue): string {
+  const text = show(value)
+  return /^\d+$/.test(text) ? text : `(${text})`
+}
+
+// Brackets a value that follows a + or − sign.
+function term(value: ExactValue): string {
+  const text = show(value)
+  return text.startsWith(MINUS) || text.startsWith('(') ? `(${text})` : text
+}
+
+function call(func: TrigFunction, angle: Angle, unit: AngleUnit, power = ''): string {
+  return `${func}${power}(${formatAngle(angle, unit)})`
+}
+
+export function formatCompositeQuestion(question: CompositeQuestion): string {
+  const { func, angle, unit } = question
+  switch (question.form) {
+    case 'pythagorean': {
+      const partner = PYTHAGOREAN_PARTNERS[func]!
+      const operator = func === 'sin' ? ' + ' : ` ${MINUS} `
+      return `${call(func, angle, unit, SQUARE)}${operator}${call(partner, angle, unit, SQUARE)}`
+    }
+    case 'double-angle':
+      return func === 'sin'
+        ? `2·${call('sin', angle, unit)}·${call('cos', angle, unit)}`
+        : `${call('cos', angle, unit, SQUARE)} ${MINUS} ${call('sin', angle, unit, SQUARE)}`
+    case 'sum':
+      return `${call(func, angle, unit)} + ${call(func, question.otherAngle!, unit)}`
+    case 'difference':
+      return `${call(func, angle, unit)} ${MINUS} ${call(func, question.otherAngle!, unit)}`
+    case 'angle-sum':
+      return call(func, angle, unit)
+  }
+}
+
+function evaluateComposite(question: CompositeQuestion): ExactValue {
+  const { func, angle } = question
+  switch (question.form) {
+    case 'pythagorean': {
+      const partner = specialValue(PYTHAGOREAN_PARTNERS[func]!, angle)
+      const leading = specialValue(func, angle)
+      return add(multiply(leading, leading), multiply(partner, partner), func === 'sin' ? 1 : -1)
+    }
+    case 'double-angle': {
+      const sin = specialValue('sin', angle)
+      const cos = specialValue('cos', angle)
+      return func === 'sin' ? scale(multiply(sin, cos), 2) : add(multiply(cos, cos), multiply(sin, sin), -1)
+    }
+    case 'sum':
+    case 'difference':
+      return add(specialValue(func, angle), specialValue(func, question.otherAngle!), question.form === 'sum' ? 1 : -1)
+    case 'angle-sum': {
+      const [a, b] = ANGLE_SUMS[angle]
+      const product = (first: TrigFunction, second: TrigFunction) => multiply(specialValue(first, a), specialValue(second, b))
+      return func === 'sin'
+        ? add(product('sin', 'cos'), product('cos', 'sin'))
+        : add(product('cos', 'cos'), product('sin', 'sin'), -1)
+    }
+  }
+}
+
+export function getCompositeAnswer(question: CompositeQuestion): string {
+  return formatExact(evaluateComposite(question))
+}
+
+export function getCompositeValue(question: CompositeQuestion): number {
+  return toNumber(evaluateComposite(question))
+}
+
+function describeValues(funcs: TrigFunction[], angle: Angle, unit: AngleUnit): string {
+  return funcs.map(func => `${call(func, angle, unit)} = ${show(specialValue(func, angle))}`).join(' and ')
+}
+
+// Each line of the worked solution, from looking up the special values to the
+// simplified result.
+export function getWorkedSolution(question: CompositeQuestion): string[] {
+  const { func, angle, unit } = question
+  const result = show(evaluateComposite(question))
+  const expression = formatCompositeQuestion(question)
+
+  switch (question.form) {
+    case 'pythagorean': {
+      const partner = PYTHAGOREAN_PARTNERS[func]!
+      const leading = specialValue(func, angle)
+      const other = specialValue(partner, angle)
+      const operator = func === 'sin' ? ' + ' : ` ${MINUS} `
+      return [
+        describeValues([func, partner], angle, unit),
+        `${expression} = ${factor(leading)}${SQUARE}${operator}${factor(other)}${SQUARE}`,
+        `= ${show(multiply(leading, leading))}${operator}${show(multiply(other, other))}`,
+        `= ${result}, as the Pythagorean identity promises for every angle`,
+      ]
+    }
+    case 'double-angle': {
+      const sin = specialValue('sin', angle)
+      const cos = specialValue('cos', angle)
+      const doubled = formatAngle(2 * angle, unit)
+      return func === 'sin'
+        ? [
+            describeValues(['sin', 'cos'], angle, unit),
+            `${expression} = 2·${factor(sin)}·${factor(cos)}`,
+            `= ${result}`,
+            `Check: 2·sin(θ)·cos(θ) = sin(2θ), and sin(${doubled}) = ${result}`,
+          ]
+        : [
+            describeValues(['cos', 'sin'], angle, unit),
+            `${expression} = ${factor(cos)}${SQUARE} ${MINUS} ${factor(sin)}${SQUARE}`,
+            `= ${show(multiply(cos, cos))} ${MINUS} ${show(multiply(sin, sin))}`,
+            `= ${result}`,
+            `Check: cos²(θ) − sin²(θ) = cos(2θ), and cos(${doubled}) = ${result}`,
+          ]
+    }
+    case 'sum':
+    case 'difference': {
+      const otherAngle = question.otherAngle!
+      const operator = question.form === 'sum' ? ' + ' : ` ${MINUS} `
+      return [
+        `${describeValues([func], angle, unit)} and ${describeValues([func], otherAngle, unit)}`,
+        `${expression} = ${show(specialValue(func, angle))}${operator}${term(specialValue(func, otherAngle))}`,
+        `= ${result}`,
+      ]
+    }
+    case 'angle-sum': {
+      const [a, b] = ANGLE_SUMS[angle]
+      const second = formatAngle(Math.abs(b), unit)
+      const split = `${formatAngle(angle, unit)} = ${formatAngle(a, unit)} ${b < 0 ? MINUS : '+'} ${second}`
+      const sinA = specialValue('sin', a)
+      const cosA = specialValue('cos', a)
+      const sinB = specialValue('sin', Math.abs(b))
+      const cosB = specialValue('cos', Math.abs(b))
+      if (func === 'sin') {
+        const operator = b < 0 ? MINUS : '+'
+        return [
+          split,
+          `sin(A ${operator} B) = sin A·cos B ${operator} cos A·sin B`,
+          `= ${factor(sinA)}·${factor(cosB)} ${operator} ${factor(cosA)}·${factor(sinB)}`,
+          `= ${show(multiply(sinA, cosB))} ${operator} ${term(multiply(cosA, sinB))}`,
+          `= ${result}`,
+        ]
+      }
+      const operator = b < 0 ? '+' : MINUS
+      return [
+        split,
+        `cos(A ${b < 0 ? MINUS : '+'} B) = cos A·cos B ${operator} sin A·sin B`,
+        `= ${factor(cosA)}·${factor(cosB)} ${operator} ${factor(sinA)}·${factor(sinB)}`,
+        `= ${show(multiply(cosA, cosB))} ${operator} ${term(multiply(sinA, sinB))}`,
+        `= ${result}`,
+      ]
+    }
+  }
+}
+
+function formCards(form: CompositeForm): { kind: 'composite'; form: CompositeForm; func: TrigFunction; angle: Angle }[] {
+  const angles = form === 'angle-sum' ? Object.keys(ANGLE_SUMS).map(Number) : COMPOSITE_ANGLES
+  return FORM_FUNCTIONS[form].flatMap(func => angles.map(angle => ({ kind: 'composite' as const, form, func, angle })))
+}
+
+export function generateCompositeQuestion(
+  previousQuestion: CompositeQuestion | undefined,
+  unit: AngleUnit,
+  schedule?: Schedule,
+  random: Random = Math.random
+): CompositeQuestion {
+  const form = COMPOSITE_FORMS[Math.floor(random() * COMPOSITE_FORMS.length)]
+  const cards = formCards(form).filter(card =>
+    !previousQuestion ||
+    card.form !== previousQuestion.form ||
+    card.func !== previousQuestion.func ||
+    card.angle !== previousQuestion.angle
+  )
+
+  const card = schedule
+    ? pickCard(cards, schedule, Date.now(), random)
+    : cards[Math.floor(random() * cards.length)]
+
+  if (form === 'sum' || form === 'difference') {
+    const others = COMPOSITE_ANGLES.filter(angle => angle !== card.angle)
+    return { ...card, otherAngle: others[Math.floor(random() * others.length)], unit }
+  }
+  return { ...card, unit }
+}
+
+// Graded by value like `checkAnswer`, so any exact form of the result counts:
+// (√6+√2)/4, √6/4+√2/4 or (√2+√6)/4. Throws ExpressionError when the answer
+// cannot be read.
+export function checkCompositeAnswer(
+  question: CompositeQuestion,
+  userAnswer: string,
+  policy: GradingPolicy = DEFAULT_GRADING_POLICY
+): GradeResult {
+  if (isUndefinedAnswer(userAnswer)) {
+    return { isCorrect: false, mistake: 'other' }
+  }
+
+  const expected = getCompositeValue(question)
+  if (checkValue(expected, userAnswer, policy)) {
+    return { isCorrect: true }
+  }
+
+  const value = evaluateExpression(parseExpression(userAnswer))
+  if (expected !== 0 && Math.abs(value + expected) < 1e-6 * Math.max(1, Math.abs(expected))) {
+    return {
+      isCorrect: false,
+      mistake: 'sign',
+      explanation: 'The size is right but the sign isn\'t; check the sign of each value in its quadrant.'
+    }
+  }
+  const nearMiss = explainNearMiss(userAnswer, value, expected, getCompositeAnswer(question), policy)
+  return { isCorrect: false, mistake: 'other', explanation: nearMiss ?? undefined }
+}
+
+// Near misses for multiple choice: the opposite sign, the other operation,
+// and the result doubled or halved.
+export function getCompositeDistractors(question: CompositeQuestion): string[] {
+  const value = evaluateComposite(question)
+  const related = question.form === 'sum' || question.form === 'difference'
+    ? [getCompositeAnswer({ ...question, form: question.form === 'sum' ? 'difference' : 'sum' })]
+    : question.form === 'double-angle' || question.form === 'angle-sum'
+      ? [getCompositeAnswer({ ...question, func: question.func === 'sin' ? 'cos' : 'sin' })]
+      : ['0', '2', '-1']
+  return [
+    ...related,
+    formatExact(scale(value, -1)),
+    formatExact(scale(value, 2)),
+    formatExact(scale(value, 1, 2)),
+    '0',
+    '1',
+  ]
+}
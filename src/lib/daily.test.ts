@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest'
+import { getDayKey, recordActivity, removeActivity } from '@/lib/daily'
+
+const NOON = new Date(2024, 4, 1, 12).getTime()
+const DAY = getDayKey(NOON)
+
+describe('removeActivity', () => {
+  it('undoes a recorded answer', () => {
+    const activity = recordActivity(recordActivity({}, NOON, true, 10), NOON + 1000, false, 10)
+    expect(removeActivity(activity, NOON, true)[DAY]).toEqual({ correct: 0, answered: 1, goal: 10 })
+  })
+
+  it('drops a day with no answers left', () => {
+    expect(removeActivity(recordActivity({}, NOON, true, 10), NOON, true)).toEqual({})
+  })
+
+  it('ignores days it has no record of', () => {
+    const activity = recordActivity({}, NOON, true, 10)
+    expect(removeActivity(activity, NOON + 2 * 86400000, true)).toBe(activity)
+  })
+})
@@ -0,0 +1,175 @@
+import { HistoryEntry } from '@/lib/history'
+
+export interface DayActivity {
+  correct: number
+  answered: number
+  // The goal in force that day, so raising the goal later does not undo
+  // days that were already won.
+  goal?: number
+}
+
+// Keyed by local calendar day, YYYY-MM-DD.
+export type Activity = Record<string, DayActivity>
+
+export interface DayStreak {
+  current: number
+  best: number
+  freezes: number
+  frozenDays: string[]
+  todayCorrect: number
+  todayMet: boolean
+}
+
+export const DAILY_GOALS = [5, 10, 20, 30, 50]
+export const DEFAULT_DAILY_GOAL = 10
+// A freeze is earned for every week of met goals, and up to MAX_FREEZES are
+// banked. Each one covers a single missed day without breaking the streak.
+export const FREEZE_EVERY_DAYS = 7
+export const MAX_FREEZES = 2
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0')
+}
+
+export function getDayKey(timestamp: number): string {
+  const date = new Date(timestamp)
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+export function parseDayKey(day: string): Date {
+  const [year, month, date] = day.split('-').map(Number)
+  return new Date(year, month - 1, date)
+}
+
+// Steps through local calendar days, so daylight-saving changes never skip
+// or repeat a day.
+export function addDays(day: string, days: number): string {
+  const date = parseDayKey(day)
+  date.setDate(date.getDate() + days)
+  return getDayKey(date.getTime())
+}
+
+export function recordActivity(
+  activity: Activity,
+  timestamp: number,
+  isCorrect: boolean,
+  goal: number
+): Activity {
+  const day = getDayKey(timestamp)
+  const current = activity[day] ?? { correct: 0, answered: 0 }
+  return {
+    ...activity,
+    [day]: {
+      correct: current.correct + (isCorrect ? 1 : 0),
+      answered: current.answered + 1,
+      goal
+    }
+  }
+}
+
+// Undoes `recordActivity` for a deleted answer; a day left with no answers
+// is dropped.
+export function removeActivity(activity: Activity, timestamp: number, isCorrect: boolean): Activity {
+  const day = getDayKey(timestamp)
+  const current = activity[day]
+  if (!current) return activity
+  if (current.answered <= 1) {
+    const rest = { ...activity }
+    delete rest[day]
+    return rest
+  }
+  return {
+    ...activity,
+    [day]: {
+      ...current,
+      correct: Math.max(0, current.correct - (isCorrect ? 1 : 0)),
+      answered: current.answered - 1
+    }
+  }
+}
+
+export function buildActivity(history: HistoryEntry[]): Activity {
+  const activity: Activity = {}
+  for (const entry of history) {
+    const day = getDayKey(entry.timestamp)
+    const current = activity[day] ?? { correct: 0, answered: 0 }
+    activity[day] = {
+      correct: current.correct + (entry.isCorrect ? 1 : 0),
+      answered: current.answered + 1
+    }
+  }
+  return activity
+}
+
+// Keeps the busier record of each day, so merging the same data twice is
+// harmless.
+export function mergeActivity(a: Activity, b: Activity): Activity {
+  const merged: Activity = { ...a }
+  for (const [day, activity] of Object.entries(b)) {
+    if (!merged[day] || activity.answered > merged[day].answered) {
+      merged[day] = activity
+    }
+  }
+  return merged
+}
+
+export function isGoalMet(activity: DayActivity | undefined, goal: number): boolean {
+  return !!activity && activity.correct >= (activity.goal ?? goal)
+}
+
+// Walks every day from the first practice day to yesterday, then counts today
+// only once its goal is met, so an unfinished today never breaks the streak.
+export function computeDayStreak(activity: Activity, goal: number, now: number = Date.now()): DayStreak {
+  const today = getDayKey(now)
+  const days = Object.keys(activity).sort()
+  let current = 0
+  let best = 0
+  let freezes = 0
+  const frozenDays: string[] = []
+
+  for (let day = days[0]; day && day < today; day = addDays(day, 1)) {
+    if (isGoalMet(activity[day], goal)) {
+      current++
+      best = Math.max(best, current)
+      if (current % FREEZE_EVERY_DAYS === 0) {
+        freezes = Math.min(MAX_FREEZES, freezes + 1)
+      }
+    } else if (current > 0 && freezes > 0) {
+      freezes--
+      frozenDays.push(day)
+    } else {
+      current = 0
+    }
+  }
+
+  const todayMet = isGoalMet(activity[today], goal)
+  if (todayMet) {
+    current++
+    best = Math.max(best, current)
+  }
+
+  return {
+    current,
+    best,
+    freezes,
+    frozenDays,
+    todayCorrect: activity[today]?.correct ?? 0,
+    todayMet
+  }
+}
+
+// Whole weeks, Sunday first, ending with the week that contains `now`.
+export function getCalendarWeeks(weeks: number, now: number = Date.now()): string[][] {
+  const today = getDayKey(now)
+  let day = addDays(today, -parseDayKey(today).getDay() - (weeks - 1) * 7)
+  const calendar: string[][] = []
+  for (let week = 0; week < weeks; week++) {
+    const days: string[] = []
+    for (let weekday = 0; weekday < 7; weekday++) {
+      days.push(day)
+      day = addDays(day, 1)
+    }
+    calendar.push(days)
+  }
+  return calendar
+}
@@ -0,0 +1,107 @@
+import { Angle, TrigFunction, UnitSetting, FUNCTIONS, ANGLES, QUADRANT_ANGLES, NEGATIVE_ANGLES } from '@/lib/trig'
+import { PracticeMode, PracticeOptions, PracticeQuestion, generatePracticeQuestion } from '@/lib/questions'
+import { Random } from '@/lib/random'
+
+export interface Deck {
+  id: string
+  name: string
+  description: string
+  mode: PracticeMode
+  functions: TrigFunction[]
+  angles: Angle[]
+}
+
+const PRIMARY_FUNCTIONS: TrigFunction[] = ['sin', 'cos', 'tan']
+const RECIPROCAL_FUNCTIONS: TrigFunction[] = ['csc', 'sec', 'cot']
+
+export const DECKS: Deck[] = [
+  {
+    id: 'first-quadrant',
+    name: 'First quadrant',
+    description: 'sin, cos and tan of 30°, 45° and 60°',
+    mode: 'values',
+    functions: PRIMARY_FUNCTIONS,
+    angles: [30, 45, 60]
+  },
+  {
+    id: 'unit-circle',
+    name: 'Unit circle',
+    description: 'sin, cos and tan from 0° to 360°',
+    mode: 'values',
+    functions: PRIMARY_FUNCTIONS,
+    angles: QUADRANT_ANGLES
+  },
+  {
+    id: 'signs',
+    name: 'Signs drill',
+    description: 'Quadrants II–IV and negative angles, where the sign matters',
+    mode: 'values',
+    functions: PRIMARY_FUNCTIONS,
+    angles: [...QUADRANT_ANGLES.filter(angle => angle > 90 && angle % 90 !== 0), ...NEGATIVE_ANGLES.filter(angle => angle % 90 !== 0)]
+  },
+  {
+    id: 'reciprocals',
+    name: 'Reciprocals',
+    description: 'csc, sec and cot, including undefined values',
+    mode: 'values',
+    functions: RECIPROCAL_FUNCTIONS,
+    angles: QUADRANT_ANGLES
+  },
+  {
+    id: 'inverse',
+    name: 'Inverse functions',
+    description: 'arcsin, arccos and arctan of the special values',
+    mode: 'inverse',
+    functions: [],
+    angles: []
+  },
+  {
+    id: 'triangles',
+    name: 'Right triangles',
+    description: 'Find a missing side or angle with the 30°, 45° and 60° ratios',
+    mode: 'triangles',
+    functions: [],
+    angles: []
+  },
+  {
+    id: 'expressions',
+    name: 'Expressions and identities',
+    description: 'sin²θ + cos²θ, double angles, sums of values and sum formulas like sin(75°)',
+    mode: 'expressions',
+    functions: [],
+    angles: []
+  },
+  {
+    id: 'everything',
+    name: 'Everything',
+    description: 'All functions, all angles, values, inverses, triangles and expressions',
+    mode: 'mixed',
+    functions: FUNCTIONS,
+    angles: ANGLES
+  },
+]
+
+export const DEFAULT_DECK_ID = 'unit-circle'
+
+export function getDeck(id: string): Deck {
+  return DECKS.find(deck => deck.id === id) ?? getDeck(DEFAULT_DECK_ID)
+}
+
+export function getDeckOptions(deck: Deck): PracticeOptions {
+  return { mode: deck.mode, functions: deck.functions, angles: deck.angles }
+}
+
+// With a seeded `random`, the same deck, count and unit give the same list.
+export function generateDeckQuestions(
+  deckId: string,
+  count: number,
+  unit: UnitSetting,
+  random: Random = Math.random
+): PracticeQuestion[] {
+  const options = { ...getDeckOptions(getDeck(deckId)), unit, random }
+  const questions: PracticeQuestion[] = []
+  for (let i = 0; i < count; i++) {
+    questions.push(generatePracticeQuestion(questions[i - 1], options))
+  }
+  return questions
+}
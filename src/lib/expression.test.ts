@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest'
+import { ExpressionError, evaluateExpression, isExactForm, parseExpression } from '@/lib/expression'
+
+const evaluate = (input: string) => evaluateExpression(parseExpression(input))
+
+function errorFor(input: string): ExpressionError {
+  try {
+    parseExpression(input)
+  } catch (error) {
+    if (error instanceof ExpressionError) return error
+    throw error
+  }
+  throw new Error(`"${input}" parsed without an error`)
+}
+
+describe('parseExpression', () => {
+  it('multiplies and divides before adding and subtracting', () => {
+    expect(evaluate('1+2*3')).toBe(7)
+    expect(evaluate('8-6/2')).toBe(5)
+    expect(evaluate('(1+2)*3')).toBe(9)
+  })
+
+  it('binds implicit multiplication tighter than /', () => {
+    expect(evaluate('1/2√3')).toBeCloseTo(1 / (2 * Math.sqrt(3)))
+    expect(evaluate('2π/3')).toBeCloseTo((2 * Math.PI) / 3)
+    expect(evaluate('2(1+1)')).toBe(4)
+  })
+
+  it('gives √ only the atom right after it', () => {
+    expect(evaluate('√3/2')).toBeCloseTo(Math.sqrt(3) / 2)
+    expect(evaluate('√(1+3)')).toBe(2)
+    expect(evaluate('√2^2')).toBeCloseTo(2)
+  })
+
+  it('applies ^ before unary minus and reads ^ right to left', () => {
+    expect(evaluate('-2^2')).toBe(-4)
+    expect(evaluate('2^-1')).toBe(0.5)
+    expect(evaluate('2^3^2')).toBe(512)
+    expect(evaluate('--1')).toBe(1)
+  })
+
+  it('accepts typographic operators and spelled-out names', () => {
+    expect(evaluate('3 − 1 × 2 ÷ 4')).toBe(2.5)
+    expect(evaluate('2·3')).toBe(6)
+    expect(evaluate('sqrt(2)/2')).toBeCloseTo(Math.SQRT1_2)
+    expect(evaluate('PI/6')).toBeCloseTo(Math.PI / 6)
+  })
+
+  it('reports where the input goes wrong', () => {
+    expect(errorFor('')).toMatchObject({ message: 'Enter an expression', position: 0 })
+    expect(errorFor('  ')).toMatchObject({ message: 'Enter an expression', position: 0 })
+    expect(errorFor('2+')).toMatchObject({ message: 'Expression ends too early', position: 2 })
+    expect(errorFor('(1')).toMatchObject({ message: 'Missing closing parenthesis', position: 2 })
+    expect(errorFor('(1 2')).toMatchObject({ message: 'Missing closing parenthesis', position: 3 })
+    expect(errorFor('1)')).toMatchObject({ message: 'Unmatched closing parenthesis', position: 1 })
+    expect(errorFor('*2')).toMatchObject({ message: 'Expected a number, √ or (', position: 0 })
+    expect(errorFor('2 3')).toMatchObject({ message: 'Unexpected input after the expression', position: 2 })
+    expect(errorFor('2 x')).toMatchObject({ message: 'Unexpected "x"', position: 2 })
+  })
+})
+
+describe('isExactForm', () => {
+  it('rejects any decimal literal', () => {
+    expect(isExactForm(parseExpression('√2/2'))).toBe(true)
+    expect(isExactForm(parseExpression('2^(-1/2)'))).toBe(true)
+    expect(isExactForm(parseExpression('0.707'))).toBe(false)
+    expect(isExactForm(parseExpression('√2/2.0'))).toBe(false)
+  })
+})
@@ -0,0 +1,244 @@
+export type BinaryOperator = '+' | '-' | '*' | '/' | '^'
+
+export type ExpressionNode =
+  | { type: 'number'; value: number; raw: string }
+  | { type: 'pi' }
+  | { type: 'negate'; operand: ExpressionNode }
+  | { type: 'sqrt'; operand: ExpressionNode }
+  | { type: 'group'; expression: ExpressionNode }
+  | { type: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode; implicit?: boolean }
+
+type Token =
+  | { type: 'number'; raw: string; position: number }
+  | { type: 'pi'; position: number }
+  | { type: 'sqrt'; position: number }
+  | { type: 'operator'; operator: BinaryOperator; position: number }
+  | { type: 'lparen'; position: number }
+  | { type: 'rparen'; position: number }
+
+export class ExpressionError extends Error {
+  position: number
+
+  constructor(message: string, position: number) {
+    super(message)
+    this.name = 'ExpressionError'
+    this.position = position
+  }
+}
+
+const OPERATOR_ALIASES: Record<string, BinaryOperator> = {
+  '+': '+',
+  '-': '-',
+  '−': '-',
+  '*': '*',
+  '·': '*',
+  '×': '*',
+  '/': '/',
+  '÷': '/',
+  '^': '^',
+}
+
+export function tokenize(input: string): Token[] {
+  const tokens: Token[] = []
+  let position = 0
+
+  while (position < input.length) {
+    const char = input[position]
+
+    if (/\s/.test(char)) {
+      position++
+      continue
+    }
+
+    const numberMatch = input.slice(position).match(/^(\d+\.?\d*|\.\d+)/)
+    if (numberMatch) {
+      tokens.push({ type: 'number', raw: numberMatch[1], position })
+      position += numberMatch[1].length
+      continue
+    }
+
+    const rest = input.slice(position).toLowerCase()
+    if (char === 'π' || rest.startsWith('pi')) {
+      tokens.push({ type: 'pi', position })
+      position += char === 'π' ? 1 : 2
+      continue
+    }
+    if (char === '√' || rest.startsWith('sqrt')) {
+      tokens.push({ type: 'sqrt', position })
+      position += char === '√' ? 1 : 4
+      continue
+    }
+    if (char in OPERATOR_ALIASES) {
+      tokens.push({ type: 'operator', operator: OPERATOR_ALIASES[char], position })
+      position++
+      continue
+    }
+    if (char === '(') {
+      tokens.push({ type: 'lparen', position })
+      position++
+      continue
+    }
+    if (char === ')') {
+      tokens.push({ type: 'rparen', position })
+      position++
+      continue
+    }
+
+    throw new ExpressionError(`Unexpected "${char}"`, position)
+  }
+
+  return tokens
+}
+
+// Precedence, loosest first: + and -, then * and /, then implicit
+// multiplication (so 1/2√3 reads as 1/(2√3)), unary minus, ^, and finally √,
+// which takes only the atom right after it (√3/2 is (√3)/2).
+export function parseExpression(input: string): ExpressionNode {
+  const tokens = tokenize(input)
+  let index = 0
+
+  const peek = (): Token | undefined => tokens[index]
+  const matchOperator = (...operators: BinaryOperator[]): BinaryOperator | null => {
+    const token = peek()
+    if (token?.type !== 'operator' || !operators.includes(token.operator)) return null
+    index++
+    return token.operator
+  }
+  const startsImplicitOperand = (token: Token | undefined): boolean =>
+    token?.type === 'pi' || token?.type === 'sqrt' || token?.type === 'lparen'
+
+  const parseSum = (): ExpressionNode => {
+    let node = parseProduct()
+    let operator = matchOperator('+', '-')
+    while (operator) {
+      node = { type: 'binary', operator, left: node, right: parseProduct() }
+      operator = matchOperator('+', '-')
+    }
+    return node
+  }
+
+  const parseProduct = (): ExpressionNode => {
+    let node = parseImplicitProduct()
+    let operator = matchOperator('*', '/')
+    while (operator) {
+      node = { type: 'binary', operator, left: node, right: parseImplicitProduct() }
+      operator = matchOperator('*', '/')
+    }
+    return node
+  }
+
+  const parseImplicitProduct = (): ExpressionNode => {
+    let node = parseUnary()
+    while (startsImplicitOperand(peek())) {
+      node = { type: 'binary', operator: '*', left: node, right: parsePower(), implicit: true }
+    }
+    return node
+  }
+
+  const parseUnary = (): ExpressionNode => {
+    if (matchOperator('-')) {
+      return { type: 'negate', operand: parseUnary() }
+    }
+    if (matchOperator('+')) {
+      return parseUnary()
+    }
+    return parsePower()
+  }
+
+  const parsePower = (): ExpressionNode => {
+    const base = parseAtom()
+    if (matchOperator('^')) {
+      return { type: 'binary', operator: '^', left: base, right: parseUnary() }
+    }
+    return base
+  }
+
+  const parseAtom = (): ExpressionNode => {
+    const token = tokens[index++]
+    if (!token) {
+      throw new ExpressionError('Expression ends too early', input.length)
+    }
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'number', value: parseFloat(token.raw), raw: token.raw }
+      case 'pi':
+        return { type: 'pi' }
+      case 'sqrt':
+        return { type: 'sqrt', operand: parseAtom() }
+      case 'lparen': {
+        const expression = parseSum()
+        const closing = tokens[index++]
+        if (closing?.type !== 'rparen') {
+          throw new ExpressionError('Missing closing parenthesis', closing?.position ?? input.length)
+        }
+        return { type: 'group', expression }
+      }
+      default:
+        throw new ExpressionError('Expected a number, √ or (', token.position)
+    }
+  }
+
+  if (tokens.length === 0) {
+    throw new ExpressionError('Enter an expression', 0)
+  }
+
+  const node = parseSum()
+  const leftover = peek()
+  if (leftover) {
+    throw new ExpressionError(
+      leftover.type === 'rparen' ? 'Unmatched closing parenthesis' : 'Unexpected input after the expression',
+      leftover.position
+    )
+  }
+  return node
+}
+
+export function evaluateExpression(node: ExpressionNode): number {
+  switch (node.type) {
+    case 'number':
+      return node.value
+    case 'pi':
+      return Math.PI
+    case 'negate':
+      return -evaluateExpression(node.operand)
+    case 'sqrt':
+      return Math.sqrt(evaluateExpression(node.operand))
+    case 'group':
+      return evaluateExpression(node.expression)
+    case 'binary': {
+      const left = evaluateExpression(node.left)
+      const right = evaluateExpression(node.right)
+      switch (node.operator) {
+        case '+':
+          return left + right
+        case '-':
+          return left - right
+        case '*':
+          return left * right
+        case '/':
+          return left / right
+        case '^':
+          return Math.pow(left, right)
+      }
+    }
+  }
+}
+
+// An expression is exact when it is written without decimal literals, e.g.
+// √2/2 or 2^(-1/2), as opposed to 0.707.
+export function isExactForm(node: ExpressionNode): boolean {
+  switch (node.type) {
+    case 'number':
+      return !node.raw.includes('.')
+    case 'pi':
+      return true
+    case 'negate':
+    case 'sqrt':
+      return isExactForm(node.operand)
+    case 'group':
+      return isExactForm(node.expression)
+    case 'binary':
+      return isExactForm(node.left) && isExactForm(node.right)
+  }
+}
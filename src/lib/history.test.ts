@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest'
+import { removeFromStats } from '@/lib/history'
+import { historyEntry } from '@/test/fixtures'
+
+// Newest first: two correct answers after a miss.
+const history = [historyEntry('d', 4, true), historyEntry('c', 3, true), historyEntry('b', 2, false), historyEntry('a', 1, true)]
+const stats = { correct: 3, total: 4, currentStreak: 2, bestStreak: 2 }
+
+describe('removeFromStats', () => {
+  it('shortens the current streak when a correct answer in it is deleted', () => {
+    expect(removeFromStats(stats, history[0], history)).toEqual({ correct: 2, total: 3, currentStreak: 1, bestStreak: 2 })
+  })
+
+  it('leaves the streak alone for answers before the last miss', () => {
+    expect(removeFromStats(stats, history[3], history)).toEqual({ correct: 2, total: 3, currentStreak: 2, bestStreak: 2 })
+  })
+
+  it('only lowers the total for a deleted miss', () => {
+    expect(removeFromStats(stats, history[2], history)).toEqual({ correct: 3, total: 3, currentStreak: 2, bestStreak: 2 })
+  })
+
+  it('leaves the streak alone for a hinted answer', () => {
+    const hinted = [historyEntry('e', 5, true, { usedHint: true }), ...history]
+    expect(removeFromStats({ ...stats, correct: 4, total: 5 }, hinted[0], hinted).currentStreak).toBe(2)
+  })
+})
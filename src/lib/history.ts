@@ -0,0 +1,169 @@
+import { PracticeQuestion, formatPracticeQuestion } from '@/lib/questions'
+import { MistakeCategory } from '@/lib/mistakes'
+import { getCardKey } from '@/lib/scheduler'
+import { getDayKey } from '@/lib/daily'
+
+export interface Stats {
+  correct: number
+  total: number
+  currentStreak: number
+  bestStreak: number
+}
+
+export const EMPTY_STATS: Stats = {
+  correct: 0,
+  total: 0,
+  currentStreak: 0,
+  bestStreak: 0
+}
+
+// A hinted answer neither extends nor breaks the streak unless it is wrong.
+export function recordStats(current: Stats, isCorrect: boolean, usedHint: boolean): Stats {
+  const currentStreak = !isCorrect ? 0 : usedHint ? current.currentStreak : current.currentStreak + 1
+  return {
+    correct: isCorrect ? current.correct + 1 : current.correct,
+    total: current.total + 1,
+    currentStreak,
+    bestStreak: Math.max(current.bestStreak, currentStreak)
+  }
+}
+
+// Takes a deleted answer back out of the counters. `history` is newest first
+// and still holds the entry. A correct answer inside the current streak
+// shortens it; the best streak is a record and stays.
+export function removeFromStats(current: Stats, entry: HistoryEntry, history: HistoryEntry[]): Stats {
+  const lastMiss = history.find(item => !item.isCorrect)
+  const inStreak = entry.isCorrect && !entry.usedHint && (!lastMiss || entry.timestamp > lastMiss.timestamp)
+  return {
+    correct: Math.max(0, current.correct - (entry.isCorrect ? 1 : 0)),
+    total: Math.max(0, current.total - 1),
+    currentStreak: inStreak ? Math.max(0, current.currentStreak - 1) : current.currentStreak,
+    bestStreak: current.bestStreak
+  }
+}
+
+export interface HistoryEntry {
+  id: string
+  question: PracticeQuestion
+  userAnswer: string
+  correctAnswer: string
+  isCorrect: boolean
+  timestamp: number
+  // Time from the question appearing to submitting; missing on entries
+  // recorded before response times were tracked.
+  durationMs?: number
+  mistake?: MistakeCategory
+  usedHint?: boolean
+}
+
+export function createEntryId(timestamp: number): string {
+  return `${timestamp}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+export type OutcomeFilter = 'all' | 'correct' | 'wrong' | MistakeCategory
+
+export interface HistoryQuery {
+  outcome: OutcomeFilter
+  func: string | null
+  angle: number | null
+  // Inclusive local day keys such as 2024-05-01; empty leaves that end open.
+  from: string
+  to: string
+  search: string
+}
+
+export const EMPTY_HISTORY_QUERY: HistoryQuery = {
+  outcome: 'all',
+  func: null,
+  angle: null,
+  from: '',
+  to: '',
+  search: ''
+}
+
+function matchesOutcome(entry: HistoryEntry, outcome: OutcomeFilter): boolean {
+  switch (outcome) {
+    case 'all':
+      return true
+    case 'correct':
+      return entry.isCorrect
+    case 'wrong':
+      return !entry.isCorrect
+    default:
+      return !entry.isCorrect && (entry.mistake ?? 'other') === outcome
+  }
+}
+
+// Search looks at the question as shown and at both answers, ignoring case.
+export function matchesQuery(entry: HistoryEntry, query: HistoryQuery): boolean {
+  if (!matchesOutcome(entry, query.outcome)) return false
+  if (query.func !== null && entry.question.func !== query.func) return false
+  if (query.angle !== null && entry.question.angle !== query.angle) return false
+
+  const day = getDayKey(entry.timestamp)
+  if (query.from && day < query.from) return false
+  if (query.to && day > query.to) return false
+
+  const search = query.search.trim().toLowerCase()
+  if (!search) return true
+  return [formatPracticeQuestion(entry.question), entry.userAnswer, entry.correctAnswer]
+    .some(text => text.toLowerCase().includes(search))
+}
+
+export function filterHistory(history: HistoryEntry[], query: HistoryQuery): HistoryEntry[] {
+  return history.filter(entry => matchesQuery(entry, query))
+}
+
+export interface CardRollup {
+  question: PracticeQuestion
+  attempts: number
+  correct: number
+}
+
+// Answers dropped from the history to stay within the retention limit,
+// summed per card so analytics keep counting them.
+export interface HistoryRollup {
+  attempts: number
+  correct: number
+  from: number | null
+  to: number | null
+  cards: Record<string, CardRollup>
+}
+
+export const EMPTY_ROLLUP: HistoryRollup = {
+  attempts: 0,
+  correct: 0,
+  from: null,
+  to: null,
+  cards: {}
+}
+
+export function rollUp(rollup: HistoryRollup, entries: HistoryEntry[]): HistoryRollup {
+  const cards = { ...rollup.cards }
+  let { attempts, correct, from, to } = rollup
+  for (const entry of entries) {
+    const key = getCardKey(entry.question)
+    const card = cards[key] ?? { question: entry.question, attempts: 0, correct: 0 }
+    cards[key] = {
+      ...card,
+      attempts: card.attempts + 1,
+      correct: card.correct + (entry.isCorrect ? 1 : 0)
+    }
+    attempts += 1
+    correct += entry.isCorrect ? 1 : 0
+    from = from === null ? entry.timestamp : Math.min(from, entry.timestamp)
+    to = to === null ? entry.timestamp : Math.max(to, entry.timestamp)
+  }
+  return { attempts, correct, from, to, cards }
+}
+
+// Keeps the newest `limit` answers of a newest-first history and rolls the
+// rest up.
+export function applyRetention(
+  history: HistoryEntry[],
+  rollup: HistoryRollup,
+  limit: number
+): { history: HistoryEntry[]; rollup: HistoryRollup } {
+  if (history.length <= limit) return { history, rollup }
+  return { history: history.slice(0, limit), rollup: rollUp(rollup, history.slice(limit)) }
+}
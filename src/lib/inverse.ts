@@ -0,0 +1,129 @@
+import { Angle, AngleUnit, TrigFunction, formatAngle, getCorrectAnswers, parseAngle } from '@/lib/trig'
+import type { GradeResult } from '@/lib/questions'
+import { ExpressionError } from '@/lib/expression'
+import { Schedule, pickCard } from '@/lib/scheduler'
+import { Random } from '@/lib/random'
+
+export type InverseFunction = 'arcsin' | 'arccos' | 'arctan'
+
+// `angle` is the principal value, i.e. the expected answer; the value inside
+// the function is derived from it so it can never disagree with the answer.
+export interface InverseQuestion {
+  kind: 'inverse'
+  func: InverseFunction
+  angle: Angle
+  unit: AngleUnit
+}
+
+export const INVERSE_FUNCTIONS: InverseFunction[] = ['arcsin', 'arccos', 'arctan']
+
+const BASE_FUNCTIONS: Record<InverseFunction, TrigFunction> = {
+  arcsin: 'sin',
+  arccos: 'cos',
+  arctan: 'tan',
+}
+
+export const PRINCIPAL_ANGLES: Record<InverseFunction, Angle[]> = {
+  arcsin: [-90, -60, -45, -30, 0, 30, 45, 60, 90],
+  arccos: [0, 30, 45, 60, 90, 120, 135, 150, 180],
+  arctan: [-60, -45, -30, 0, 30, 45, 60],
+}
+
+export const PRINCIPAL_RANGES: Record<InverseFunction, [Angle, Angle]> = {
+  arcsin: [-90, 90],
+  arccos: [0, 180],
+  arctan: [-90, 90],
+}
+
+function describePrincipalRange(func: InverseFunction, unit: AngleUnit): string {
+  const [low, high] = PRINCIPAL_RANGES[func].map(angle => formatAngle(angle, unit))
+  return func === 'arctan' ? `strictly between ${low} and ${high}` : `from ${low} to ${high}`
+}
+
+export function getInverseValue(question: Pick<InverseQuestion, 'func' | 'angle'>): string {
+  return getCorrectAnswers({ func: BASE_FUNCTIONS[question.func], angle: question.angle })[0]
+}
+
+function formatValue(value: string): string {
+  return value.replace(/-/g, '−')
+}
+
+export function formatInverseQuestion(question: InverseQuestion): string {
+  return `${question.func}(${formatValue(getInverseValue(question))})`
+}
+
+export function getInverseAnswer(question: InverseQuestion): string {
+  return formatAngle(question.angle, question.unit)
+}
+
+// The other angle, outside the principal range, where the base function takes
+// the same value: the answer students give when they pick the wrong quadrant.
+export function getMirrorAngle(question: Pick<InverseQuestion, 'func' | 'angle'>): Angle {
+  switch (question.func) {
+    case 'arcsin':
+      return 180 - question.angle
+    case 'arccos':
+      return -question.angle
+    case 'arctan':
+      return question.angle + 180
+  }
+}
+
+export function generateInverseQuestion(
+  previousQuestion: InverseQuestion | undefined,
+  unit: AngleUnit,
+  schedule?: Schedule,
+  random: Random = Math.random
+): InverseQuestion {
+  const cards = INVERSE_FUNCTIONS.flatMap(func => PRINCIPAL_ANGLES[func].map(angle => ({ func, angle })))
+    .filter(card =>
+      !previousQuestion ||
+      card.func !== previousQuestion.func ||
+      card.angle !== previousQuestion.angle
+    )
+
+  const card = schedule
+    ? pickCard(cards, schedule, Date.now(), random)
+    : cards[Math.floor(random() * cards.length)]
+
+  return { kind: 'inverse', ...card, unit }
+}
+
+function evaluateBase(func: TrigFunction, angle: Angle): number {
+  const radians = (angle * Math.PI) / 180
+  switch (func) {
+    case 'sin':
+      return Math.sin(radians)
+    case 'cos':
+      return Math.cos(radians)
+    default:
+      return Math.tan(radians)
+  }
+}
+
+// Grades an angle answer. An angle that has the right function value but lies
+// outside the principal range gets an explanation instead of a bare "wrong".
+// Throws ExpressionError when the answer is not a readable angle.
+export function checkInverseAnswer(question: InverseQuestion, userAnswer: string): GradeResult {
+  const angle = parseAngle(userAnswer, question.unit)
+  if (angle === null) {
+    throw new ExpressionError('Enter an angle such as 30°, -45 or π/6', 0)
+  }
+
+  if (Math.abs(angle - question.angle) < 1e-6) {
+    return { isCorrect: true }
+  }
+
+  const base = BASE_FUNCTIONS[question.func]
+  const expected = evaluateBase(base, question.angle)
+  const actual = evaluateBase(base, angle)
+  if (Math.abs(actual - expected) < 1e-9 * Math.max(1, Math.abs(expected))) {
+    return {
+      isCorrect: false,
+      mistake: 'out-of-range',
+      explanation: `${base}(${formatAngle(angle, question.unit)}) is ${formatValue(getInverseValue(question))}, but ${question.func} only returns angles ${describePrincipalRange(question.func, question.unit)}, so the answer is ${getInverseAnswer(question)}.`
+    }
+  }
+
+  return { isCorrect: false, mistake: 'other' }
+}
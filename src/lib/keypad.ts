@@ -0,0 +1,58 @@
+export type KeypadAction = 'backspace' | 'submit'
+
+export interface KeypadKey {
+  label: string
+  insert?: string
+  action?: KeypadAction
+  ariaLabel?: string
+}
+
+export interface TextEdit {
+  value: string
+  caret: number
+}
+
+const DIGIT_ROWS: KeypadKey[][] = [
+  [{ label: '7', insert: '7' }, { label: '8', insert: '8' }, { label: '9', insert: '9' }],
+  [{ label: '4', insert: '4' }, { label: '5', insert: '5' }, { label: '6', insert: '6' }],
+  [{ label: '1', insert: '1' }, { label: '2', insert: '2' }, { label: '3', insert: '3' }],
+]
+
+const SYMBOL_ROWS: KeypadKey[][] = [
+  [{ label: '√', insert: '√', ariaLabel: 'square root' }, { label: 'π', insert: 'π', ariaLabel: 'pi' }],
+  [{ label: '(', insert: '(' }, { label: ')', insert: ')' }],
+  [{ label: 'a⁄b', insert: '/', ariaLabel: 'fraction' }, { label: '−', insert: '−', ariaLabel: 'minus' }],
+]
+
+// Value answers get a key for "undefined"; angle answers get a degree sign.
+export function getKeypadRows(kind: 'value' | 'inverse'): KeypadKey[][] {
+  const special: KeypadKey = kind === 'inverse'
+    ? { label: '°', insert: '°', ariaLabel: 'degrees' }
+    : { label: 'DNE', insert: 'DNE', ariaLabel: 'undefined' }
+  return [
+    ...DIGIT_ROWS.map((row, index) => [...row, ...SYMBOL_ROWS[index]]),
+    [
+      { label: '0', insert: '0' },
+      { label: '.', insert: '.', ariaLabel: 'decimal point' },
+      special,
+      { label: '⌫', action: 'backspace', ariaLabel: 'backspace' },
+      { label: '⏎', action: 'submit', ariaLabel: 'submit answer' },
+    ],
+  ]
+}
+
+export function insertText(value: string, start: number, end: number, text: string): TextEdit {
+  return { value: value.slice(0, start) + text + value.slice(end), caret: start + text.length }
+}
+
+// Deletes the selection, or the character before the caret when nothing is
+// selected.
+export function deleteBackward(value: string, start: number, end: number): TextEdit {
+  if (start !== end) {
+    return { value: value.slice(0, start) + value.slice(end), caret: start }
+  }
+  if (start === 0) {
+    return { value, caret: 0 }
+  }
+  return { value: value.slice(0, start - 1) + value.slice(start), caret: start - 1 }
+}
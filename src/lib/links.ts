@@ -0,0 +1,54 @@
+import { UnitSetting } from '@/lib/trig'
+import { DECKS } from '@/lib/decks'
+
+// Everything a friend needs to replay the same quiz, plus the score to beat.
+export interface ChallengeLink {
+  seed: string
+  deckId: string
+  length: number
+  unit: UnitSetting
+  score?: number
+}
+
+export const MAX_LINK_LENGTH = 50
+
+const UNITS: UnitSetting[] = ['degrees', 'radians', 'mixed']
+const LINK_PARAMS = ['seed', 'deck', 'n', 'unit', 'score']
+
+export function createChallengeUrl(link: ChallengeLink, base: string): string {
+  const url = new URL(base)
+  url.search = ''
+  url.hash = ''
+  url.searchParams.set('seed', link.seed)
+  url.searchParams.set('deck', link.deckId)
+  url.searchParams.set('n', String(link.length))
+  url.searchParams.set('unit', link.unit)
+  if (link.score !== undefined) url.searchParams.set('score', String(link.score))
+  return url.toString()
+}
+
+// Returns null for URLs that are not challenge links or were tampered with
+// into something the app cannot replay.
+export function parseChallengeUrl(href: string): ChallengeLink | null {
+  const params = new URL(href).searchParams
+  const seed = params.get('seed')?.trim()
+  const deckId = params.get('deck')
+  const length = Number(params.get('n'))
+  const unit = params.get('unit') as UnitSetting
+  if (!seed || !DECKS.some(deck => deck.id === deckId) || !UNITS.includes(unit)) return null
+  if (!Number.isInteger(length) || length < 1 || length > MAX_LINK_LENGTH) return null
+
+  const link: ChallengeLink = { seed, deckId: deckId as string, length, unit }
+  const score = params.get('score')
+  if (score !== null) {
+    const value = Number(score)
+    if (Number.isInteger(value) && value >= 0 && value <= length) link.score = value
+  }
+  return link
+}
+
+export function removeChallengeParams(href: string): string {
+  const url = new URL(href)
+  LINK_PARAMS.forEach(param => url.searchParams.delete(param))
+  return url.toString()
+}
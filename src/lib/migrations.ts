@@ -0,0 +1,92 @@
+import { Stats, HistoryEntry, HistoryRollup, EMPTY_ROLLUP } from '@/lib/history'
+import { buildActivity } from '@/lib/daily'
+import { ProfileState, PROFILES_KEY, PROFILE_DATA_KEYS, DEFAULT_PROFILE, DEFAULT_PROFILE_STATE, getProfileKey } from '@/lib/profiles'
+
+// Bump this and append to MIGRATIONS whenever a stored shape changes.
+export const SCHEMA_VERSION = 5
+export const SCHEMA_VERSION_KEY = 'trig-schema-version'
+
+export interface StoredData {
+  stats?: Stats
+  history?: HistoryEntry[]
+  rollup?: HistoryRollup
+}
+
+export interface KeyValueStore {
+  get<T>(key: string): Promise<T | undefined>
+  set<T>(key: string, value: T): Promise<void>
+  delete(key: string): Promise<void>
+}
+
+type Migration = (data: StoredData) => StoredData
+
+// Records from before inverse questions and radians have neither a kind
+// nor a unit on their question.
+function addQuestionDefaults(entry: HistoryEntry): HistoryEntry {
+  const question = entry.question.kind === 'inverse'
+    ? entry.question
+    : { ...entry.question, kind: 'value' as const, unit: entry.question.unit ?? 'degrees' }
+  return { ...entry, question }
+}
+
+// Rows used to be told apart by timestamp, which two answers can share.
+function addEntryId(entry: HistoryEntry, index: number): HistoryEntry {
+  return entry.id ? entry : { ...entry, id: `${entry.timestamp}-${index}` }
+}
+
+// MIGRATIONS[n] upgrades data from version n to version n + 1.
+const MIGRATIONS: Migration[] = [
+  data => ({ ...data, history: data.history?.map(addQuestionDefaults) }),
+  // Version 2 moved storage into profiles; the records are unchanged.
+  data => data,
+  // Version 3 added per-day activity, derived from history in storage.
+  data => data,
+  data => ({ ...data, history: data.history?.map(addEntryId) }),
+  // Version 5 carries the history rollup alongside the history.
+  data => ({ ...data, rollup: data.rollup ?? EMPTY_ROLLUP }),
+]
+
+export function migrateData(data: StoredData, fromVersion: number): StoredData {
+  return MIGRATIONS.slice(fromVersion).reduce((current, migration) => migration(current), data)
+}
+
+// Data from before profiles existed becomes the default profile's.
+async function moveIntoDefaultProfile(kv: KeyValueStore): Promise<void> {
+  for (const key of PROFILE_DATA_KEYS) {
+    const value = await kv.get<unknown>(key)
+    if (value === undefined) continue
+    await kv.set(getProfileKey(DEFAULT_PROFILE.id, key), value)
+    await kv.delete(key)
+  }
+  if (!(await kv.get<ProfileState>(PROFILES_KEY))) {
+    await kv.set(PROFILES_KEY, DEFAULT_PROFILE_STATE)
+  }
+}
+
+export async function migrateStorage(kv: KeyValueStore): Promise<void> {
+  const version = (await kv.get<number>(SCHEMA_VERSION_KEY)) ?? 0
+  if (version >= SCHEMA_VERSION) return
+
+  if (version < 2) {
+    await moveIntoDefaultProfile(kv)
+  }
+
+  const { profiles } = (await kv.get<ProfileState>(PROFILES_KEY)) ?? DEFAULT_PROFILE_STATE
+  for (const profile of profiles) {
+    const statsKey = getProfileKey(profile.id, 'trig-stats')
+    const historyKey = getProfileKey(profile.id, 'trig-history')
+    const rollupKey = getProfileKey(profile.id, 'trig-history-rollup')
+    const stats = await kv.get<Stats>(statsKey)
+    const history = await kv.get<HistoryEntry[]>(historyKey)
+    const rollup = await kv.get<HistoryRollup>(rollupKey)
+    const migrated = migrateData({ stats, history, rollup }, version)
+
+    if (migrated.stats) await kv.set(statsKey, migrated.stats)
+    if (migrated.history) await kv.set(historyKey, migrated.history)
+    if (migrated.rollup) await kv.set(rollupKey, migrated.rollup)
+    if (version < 3 && migrated.history) {
+      await kv.set(getProfileKey(profile.id, 'trig-activity'), buildActivity(migrated.history))
+    }
+  }
+  await kv.set(SCHEMA_VERSION_KEY, SCHEMA_VERSION)
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest'
+import { gradeAnswer } from '@/lib/questions'
+import { TriangleQuestion } from '@/lib/triangle'
+
+const EXACT = { mode: 'exact' } as const
+const THREE_FIGURES = { mode: 'decimal', significantFigures: 3 } as const
+
+const sin30 = { kind: 'value', func: 'sin', angle: 30, unit: 'degrees' } as const
+const sin45 = { kind: 'value', func: 'sin', angle: 45, unit: 'degrees' } as const
+const tan45 = { kind: 'value', func: 'tan', angle: 45, unit: 'degrees' } as const
+// The adjacent side is 10 cos 30° = 5√3 ≈ 8.66.
+const triangle: TriangleQuestion = { kind: 'triangle', func: 'cos', angle: 30, given: 'hypotenuse', length: 10, target: 'side', unit: 'degrees' }
+
+describe('near-miss explanations', () => {
+  it('asks for exact form when decimals are not accepted', () => {
+    expect(gradeAnswer(sin30, '0.5', EXACT).explanation).toMatch(/exact form \(fractions\/radicals\): 1\/2/)
+    expect(gradeAnswer(tan45, '1.0', EXACT).explanation).toMatch(/exact form \(fractions\/radicals\): 1\./)
+    expect(gradeAnswer(triangle, '8.7', EXACT).explanation).toMatch(/exact form \(fractions\/radicals\): 5√3/)
+  })
+
+  it('asks for more figures when a decimal is rounded correctly but too coarsely', () => {
+    expect(gradeAnswer(sin45, '0.71', THREE_FIGURES).explanation).toMatch(/^Round to 3 significant figures/)
+    expect(gradeAnswer(triangle, '8.7', THREE_FIGURES).explanation).toMatch(/^Round to 3 significant figures/)
+  })
+
+  it('calls a wrongly rounded decimal an approximation', () => {
+    expect(gradeAnswer(sin45, '0.70', THREE_FIGURES).explanation).toBe("That's only an approximation; the exact value is √2/2.")
+    expect(gradeAnswer(triangle, '8.6', THREE_FIGURES).explanation).toBe("That's only an approximation; the exact length is 5√3.")
+  })
+
+  it('accepts decimals to enough figures', () => {
+    expect(gradeAnswer(sin45, '0.707', THREE_FIGURES).isCorrect).toBe(true)
+    expect(gradeAnswer(triangle, '8.66', THREE_FIGURES).isCorrect).toBe(true)
+  })
+})
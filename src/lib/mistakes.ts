@@ -0,0 +1,185 @@
+import {
+  GradingPolicy,
+  DEFAULT_GRADING_POLICY,
+  Question,
+  TrigFunction,
+  formatAngle,
+  getCorrectAnswers,
+  getReferenceAngle,
+  getQuadrantSign,
+  isUndefinedValue,
+  isUndefinedAnswer,
+  normalizeAngle,
+} from '@/lib/trig'
+import { parseExpression, evaluateExpression } from '@/lib/expression'
+
+export type MistakeCategory = 'cofunction' | 'reciprocal' | 'sign' | 'radical' | 'out-of-range' | 'other'
+
+export interface Mistake {
+  category: MistakeCategory
+  explanation?: string
+}
+
+export const MISTAKE_LABELS: Record<MistakeCategory, string> = {
+  cofunction: 'Co-function swap',
+  reciprocal: 'Reciprocal',
+  sign: 'Wrong sign',
+  radical: '√2 vs √3',
+  'out-of-range': 'Outside principal range',
+  other: 'Other',
+}
+
+export const MISTAKE_CATEGORIES = Object.keys(MISTAKE_LABELS) as MistakeCategory[]
+
+export const COFUNCTIONS: Record<TrigFunction, TrigFunction> = {
+  sin: 'cos',
+  cos: 'sin',
+  tan: 'cot',
+  cot: 'tan',
+  csc: 'sec',
+  sec: 'csc',
+}
+
+export const RECIPROCALS: Record<TrigFunction, TrigFunction> = {
+  sin: 'csc',
+  csc: 'sin',
+  cos: 'sec',
+  sec: 'cos',
+  tan: 'cot',
+  cot: 'tan',
+}
+
+const DENOMINATORS: Partial<Record<TrigFunction, TrigFunction>> = {
+  tan: 'cos',
+  sec: 'cos',
+  cot: 'sin',
+  csc: 'sin',
+}
+
+const QUADRANTS = ['I', 'II', 'III', 'IV']
+
+function valueOf(func: TrigFunction, question: Question): number | null {
+  const related = { func, angle: question.angle }
+  if (isUndefinedValue(related)) return null
+  return evaluateExpression(parseExpression(getCorrectAnswers(related)[0]))
+}
+
+function sameValue(a: number | null, b: number | null): boolean {
+  return a !== null && b !== null && Math.abs(a - b) < 1e-6 * Math.max(1, Math.abs(b))
+}
+
+function describePosition(angle: number): string {
+  const normalized = normalizeAngle(angle)
+  if (normalized % 90 === 0) return `at ${formatAngle(normalized)}`
+  return `in quadrant ${QUADRANTS[Math.floor(normalized / 90)]}`
+}
+
+// The √2 ↔ √3 slip: the same answer with the other special triangle's root.
+export function swapRadicals(answer: string): string {
+  return answer.replace(/√[23]/g, radical => (radical === '√2' ? '√3' : '√2'))
+}
+
+// Significant figures in a plain decimal such as 0.71 or -8.70; null for
+// anything else, whose precision can't be read off.
+function countSignificantFigures(answer: string): number | null {
+  const match = answer.trim().replace(/^[-−+]/, '').match(/^(\d*)\.(\d*)$/)
+  if (!match) return null
+  const digits = (match[1] + match[2]).replace(/^0+/, '')
+  return digits.length > 0 ? digits.length : null
+}
+
+function roundsTo(value: number, expected: number, significantFigures: number): boolean {
+  const magnitude = expected === 0 ? 0 : Math.floor(Math.log10(Math.abs(expected)))
+  return Math.abs(value - expected) <= 0.5 * Math.pow(10, magnitude - significantFigures + 1)
+}
+
+// Explains a wrong decimal within 1% of the expected value: under exact
+// grading it needs exact form, under decimal grading a correctly rounded
+// decimal needs more figures, and anything else is a loose approximation.
+// Returns null when the answer is further off.
+export function explainNearMiss(
+  userAnswer: string,
+  value: number,
+  expected: number,
+  exactAnswer: string,
+  policy: GradingPolicy = DEFAULT_GRADING_POLICY,
+  noun: string = 'value'
+): string | null {
+  if (Math.abs(value - expected) >= 0.01 * Math.max(1, Math.abs(expected))) return null
+  if (policy.mode === 'exact') {
+    return `Decimals aren't accepted here; write it in exact form (fractions/radicals): ${exactAnswer}.`
+  }
+  const given = countSignificantFigures(userAnswer)
+  if (given !== null && given < policy.significantFigures && roundsTo(value, expected, given)) {
+    return `Round to ${policy.significantFigures} significant figures, or give the exact ${noun} ${exactAnswer}.`
+  }
+  return `That's only an approximation; the exact ${noun} is ${exactAnswer}.`
+}
+
+// Compares a wrong answer against the values students usually confuse with
+// the right one and explains the likely slip. Only call this for answers that
+// were already graded wrong, so the input is known to parse.
+export function classifyMistake(
+  question: Question,
+  userAnswer: string,
+  policy: GradingPolicy = DEFAULT_GRADING_POLICY
+): Mistake {
+  const angle = formatAngle(question.angle, question.unit)
+  if (isUndefinedValue(question)) {
+    return {
+      category: 'other',
+      explanation: `${question.func}(${angle}) is undefined because it divides by ${DENOMINATORS[question.func]}(${angle}) = 0.`
+    }
+  }
+  if (isUndefinedAnswer(userAnswer)) {
+    return { category: 'other' }
+  }
+
+  const value = evaluateExpression(parseExpression(userAnswer))
+  const expected = valueOf(question.func, question)
+
+  const canonical = getCorrectAnswers(question)[0]
+  const nearMiss = expected !== null ? explainNearMiss(userAnswer, value, expected, canonical, policy) : null
+  if (nearMiss) {
+    return { category: 'other', explanation: nearMiss }
+  }
+
+  if (expected !== null && expected !== 0 && sameValue(value, -expected)) {
+    const sign = getQuadrantSign(question.func, question.angle) > 0 ? 'positive' : 'negative'
+    return {
+      category: 'sign',
+      explanation: `The size is right but the sign isn't: ${question.func} is ${sign} ${describePosition(question.angle)}.`
+    }
+  }
+
+  const cofunction = COFUNCTIONS[question.func]
+  const cofunctionValue = valueOf(cofunction, question)
+  if (cofunctionValue !== null && sameValue(Math.abs(value), Math.abs(cofunctionValue))) {
+    const reference = getReferenceAngle(question.angle)
+    return {
+      category: 'cofunction',
+      explanation: `That's ${cofunction}(${angle}); ${question.func} and ${cofunction} swap between ${formatAngle(reference)} and ${formatAngle(90 - reference)}.`
+    }
+  }
+
+  const reciprocal = RECIPROCALS[question.func]
+  const reciprocalValue = valueOf(reciprocal, question)
+  if (reciprocalValue !== null && sameValue(Math.abs(value), Math.abs(reciprocalValue))) {
+    return {
+      category: 'reciprocal',
+      explanation: `That's ${reciprocal}(${angle}) = 1/${question.func}(${angle}), the reciprocal of the answer.`
+    }
+  }
+
+  const swapped = swapRadicals(canonical)
+  if (swapped !== canonical && sameValue(Math.abs(value), Math.abs(evaluateExpression(parseExpression(swapped))))) {
+    return {
+      category: 'radical',
+      explanation: canonical.includes('√2')
+        ? '√3 belongs to the 30° and 60° values; the 45° values use √2.'
+        : '√2 only appears at 45°; the 30° and 60° values use √3.'
+    }
+  }
+
+  return { category: 'other' }
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest'
+import { PROFILE_DATA_KEYS, deleteProfileData, getProfileKey } from '@/lib/profiles'
+import { KeyValueStore } from '@/lib/migrations'
+
+function createStore(failingKey?: string): KeyValueStore & { data: Map<string, unknown> } {
+  const data = new Map<string, unknown>(PROFILE_DATA_KEYS.map(key => [getProfileKey('p1', key), {}]))
+  return {
+    data,
+    get: async <T>(key: string) => data.get(key) as T | undefined,
+    set: async (key, value) => { data.set(key, value) },
+    delete: async key => {
+      if (key === failingKey) throw new Error('storage unavailable')
+      data.delete(key)
+    }
+  }
+}
+
+describe('deleteProfileData', () => {
+  it('removes every key the profile owns', async () => {
+    const kv = createStore()
+    expect(await deleteProfileData(kv, 'p1')).toEqual([])
+    expect(kv.data.size).toBe(0)
+  })
+
+  it('keeps deleting past a failure and reports the keys left behind', async () => {
+    const kv = createStore(getProfileKey('p1', 'trig-history'))
+    expect(await deleteProfileData(kv, 'p1')).toEqual(['trig-history'])
+    expect([...kv.data.keys()]).toEqual([getProfileKey('p1', 'trig-history')])
+  })
+})
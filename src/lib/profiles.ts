@@ -0,0 +1,89 @@
+import type { KeyValueStore } from '@/lib/migrations'
+
+export interface Profile {
+  id: string
+  name: string
+  createdAt: number
+}
+
+export interface ProfileState {
+  profiles: Profile[]
+  activeId: string
+}
+
+export const PROFILES_KEY = 'trig-profiles'
+export const MAX_PROFILE_NAME_LENGTH = 30
+
+// Every key a learner owns. Each is stored once per profile.
+export const PROFILE_DATA_KEYS = [
+  'trig-stats',
+  'trig-history',
+  'trig-history-rollup',
+  'trig-settings',
+  'trig-schedule',
+  'trig-leaderboard',
+  'trig-sessions',
+  'trig-activity',
+  'trig-achievements',
+]
+
+export const PROFILE_DATA_LABELS: Record<string, string> = {
+  'trig-stats': 'stats',
+  'trig-history': 'answer history',
+  'trig-history-rollup': 'archived history totals',
+  'trig-settings': 'settings',
+  'trig-schedule': 'review schedule',
+  'trig-leaderboard': 'challenge scores',
+  'trig-sessions': 'quiz sessions',
+  'trig-activity': 'daily activity',
+  'trig-achievements': 'achievements',
+}
+
+export const DEFAULT_PROFILE: Profile = { id: 'default', name: 'Learner 1', createdAt: 0 }
+
+export const DEFAULT_PROFILE_STATE: ProfileState = {
+  profiles: [DEFAULT_PROFILE],
+  activeId: DEFAULT_PROFILE.id
+}
+
+export function getProfileKey(profileId: string, key: string): string {
+  return `${key}:${profileId}`
+}
+
+export function normalizeProfileName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').slice(0, MAX_PROFILE_NAME_LENGTH)
+}
+
+export function getActiveProfile(state: ProfileState): Profile {
+  return state.profiles.find(profile => profile.id === state.activeId) ?? state.profiles[0] ?? DEFAULT_PROFILE
+}
+
+export function addProfile(state: ProfileState, name: string, now: number = Date.now()): ProfileState {
+  const profile: Profile = {
+    id: `${now}-${Math.random().toString(36).slice(2, 8)}`,
+    name: normalizeProfileName(name),
+    createdAt: now
+  }
+  return { profiles: [...state.profiles, profile], activeId: profile.id }
+}
+
+export function renameProfile(state: ProfileState, id: string, name: string): ProfileState {
+  return {
+    ...state,
+    profiles: state.profiles.map(profile => profile.id === id ? { ...profile, name: normalizeProfileName(name) } : profile)
+  }
+}
+
+// The last profile cannot be removed. Removing the active one switches to
+// the first that remains.
+export function removeProfile(state: ProfileState, id: string): ProfileState {
+  const profiles = state.profiles.filter(profile => profile.id !== id)
+  if (profiles.length === 0) return state
+  return { profiles, activeId: state.activeId === id ? profiles[0].id : state.activeId }
+}
+
+// Tries every key even when some fail, and returns the keys that are left.
+export async function deleteProfileData(kv: KeyValueStore, profileId: string): Promise<string[]> {
+  const results = await Promise.allSettled(PROFILE_DATA_KEYS.map(key => kv.delete(getProfileKey(profileId, key))))
+  return PROFILE_DATA_KEYS.filter((_, index) => results[index].status === 'rejected')
+}
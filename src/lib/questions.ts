@@ -0,0 +1,143 @@
+import {
+  Question,
+  QuestionOptions,
+  GradingPolicy,
+  DEFAULT_GRADING_POLICY,
+  generateQuestion,
+  checkAnswer,
+  getCorrectAnswers,
+  formatQuestion,
+  pickUnit,
+} from '@/lib/trig'
+import {
+  InverseQuestion,
+  generateInverseQuestion,
+  checkInverseAnswer,
+  formatInverseQuestion,
+  getInverseAnswer,
+} from '@/lib/inverse'
+import {
+  TriangleQuestion,
+  generateTriangleQuestion,
+  checkTriangleAnswer,
+  formatTriangleQuestion,
+  getTriangleAnswer,
+} from '@/lib/triangle'
+import {
+  CompositeQuestion,
+  generateCompositeQuestion,
+  checkCompositeAnswer,
+  formatCompositeQuestion,
+  getCompositeAnswer,
+} from '@/lib/composite'
+import { MistakeCategory, classifyMistake } from '@/lib/mistakes'
+
+export type PracticeQuestion = Question | InverseQuestion | TriangleQuestion | CompositeQuestion
+export type PracticeMode = 'values' | 'inverse' | 'triangles' | 'expressions' | 'mixed'
+
+const MIXED_MODES: PracticeMode[] = ['values', 'inverse', 'triangles', 'expressions']
+
+export interface GradeResult {
+  isCorrect: boolean
+  explanation?: string
+  mistake?: MistakeCategory
+}
+
+export interface PracticeOptions extends QuestionOptions {
+  mode?: PracticeMode
+}
+
+export function formatPracticeQuestion(question: PracticeQuestion): string {
+  switch (question.kind) {
+    case 'inverse':
+      return formatInverseQuestion(question)
+    case 'triangle':
+      return formatTriangleQuestion(question)
+    case 'composite':
+      return formatCompositeQuestion(question)
+    default:
+      return formatQuestion(question)
+  }
+}
+
+export function getCanonicalAnswer(question: PracticeQuestion): string {
+  switch (question.kind) {
+    case 'inverse':
+      return getInverseAnswer(question)
+    case 'triangle':
+      return getTriangleAnswer(question)
+    case 'composite':
+      return getCompositeAnswer(question)
+    default:
+      return getCorrectAnswers(question)[0]
+  }
+}
+
+// Whether the question is answered with an angle rather than a value.
+export function isAngleAnswer(question: PracticeQuestion): boolean {
+  return question.kind === 'inverse' || (question.kind === 'triangle' && question.target === 'angle')
+}
+
+export function generatePracticeQuestion(
+  previousQuestion?: PracticeQuestion,
+  options: PracticeOptions = {}
+): PracticeQuestion {
+  const mode = options.mode ?? 'values'
+  const random = options.random ?? Math.random
+  const kind = mode === 'mixed' ? MIXED_MODES[Math.floor(random() * MIXED_MODES.length)] : mode
+
+  if (kind === 'inverse') {
+    const unit = pickUnit(options.unit ?? 'degrees', random)
+    const previous = previousQuestion?.kind === 'inverse' ? previousQuestion : undefined
+    return generateInverseQuestion(previous, unit, options.schedule, random)
+  }
+
+  if (kind === 'triangles') {
+    const unit = pickUnit(options.unit ?? 'degrees', random)
+    const previous = previousQuestion?.kind === 'triangle' ? previousQuestion : undefined
+    return generateTriangleQuestion(previous, unit, options.schedule, random)
+  }
+
+  if (kind === 'expressions') {
+    const unit = pickUnit(options.unit ?? 'degrees', random)
+    const previous = previousQuestion?.kind === 'composite' ? previousQuestion : undefined
+    return generateCompositeQuestion(previous, unit, options.schedule, random)
+  }
+
+  const previous = !previousQuestion?.kind || previousQuestion.kind === 'value' ? previousQuestion : undefined
+  return generateQuestion(previous, options)
+}
+
+export function matchesPracticeOptions(question: PracticeQuestion, options: PracticeOptions): boolean {
+  const mode = options.mode ?? 'values'
+  if (question.kind === 'inverse') return mode === 'inverse' || mode === 'mixed'
+  if (question.kind === 'triangle') return mode === 'triangles' || mode === 'mixed'
+  if (question.kind === 'composite') return mode === 'expressions' || mode === 'mixed'
+  if (mode !== 'values' && mode !== 'mixed') return false
+  return (!options.functions?.length || options.functions.includes(question.func)) &&
+    (!options.angles?.length || options.angles.includes(question.angle))
+}
+
+// Wrong answers come back with a mistake category and, when the slip is a
+// recognisable one, an explanation. Throws ExpressionError when the answer
+// cannot be read.
+export function gradeAnswer(
+  question: PracticeQuestion,
+  userAnswer: string,
+  policy: GradingPolicy = DEFAULT_GRADING_POLICY
+): GradeResult {
+  if (question.kind === 'inverse') {
+    return checkInverseAnswer(question, userAnswer)
+  }
+  if (question.kind === 'triangle') {
+    return checkTriangleAnswer(question, userAnswer, policy)
+  }
+  if (question.kind === 'composite') {
+    return checkCompositeAnswer(question, userAnswer, policy)
+  }
+  if (checkAnswer(question, userAnswer, policy)) {
+    return { isCorrect: true }
+  }
+  const { category, explanation } = classifyMistake(question, userAnswer, policy)
+  return { isCorrect: false, mistake: category, explanation }
+}
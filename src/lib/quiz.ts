@@ -0,0 +1,130 @@
+import { UnitSetting } from '@/lib/trig'
+import { PracticeQuestion } from '@/lib/questions'
+import { generateDeckQuestions } from '@/lib/decks'
+import { Random, createSeededRandom } from '@/lib/random'
+import { ChallengeLink } from '@/lib/links'
+
+export interface QuizConfig {
+  length: number
+  deckId: string
+  deferFeedback: boolean
+}
+
+export interface QuizAnswer {
+  question: PracticeQuestion
+  userAnswer: string
+  correctAnswer: string
+  isCorrect: boolean
+  durationMs: number
+}
+
+export interface QuizSession {
+  id: string
+  config: QuizConfig
+  questions: PracticeQuestion[]
+  answers: QuizAnswer[]
+  startedAt: number
+  finishedAt?: number
+  // Seeded quizzes can be replayed from a challenge link.
+  seed?: string
+  unit?: UnitSetting
+  // The score to beat when the quiz was opened from a challenge link.
+  challengerScore?: number
+}
+
+export interface QuizReport {
+  score: number
+  total: number
+  accuracy: number
+  durationMs: number
+  missed: QuizAnswer[]
+}
+
+export const QUIZ_LENGTHS = [5, 10, 15, 20, 30]
+export const MAX_ARCHIVED_SESSIONS = 100
+
+export const DEFAULT_QUIZ_CONFIG: QuizConfig = {
+  length: 15,
+  deckId: 'unit-circle',
+  deferFeedback: false
+}
+
+export function createQuiz(
+  config: QuizConfig,
+  unit: UnitSetting,
+  now: number = Date.now(),
+  random: Random = Math.random
+): QuizSession {
+  const questions = generateDeckQuestions(config.deckId, config.length, unit, random)
+  return createQuizFromQuestions(config, questions, now)
+}
+
+// The seed covers the deck and unit too, so a link only needs the seed to
+// reproduce the exact sequence.
+export function createSeededQuiz(
+  config: QuizConfig,
+  unit: UnitSetting,
+  seed: string,
+  now: number = Date.now()
+): QuizSession {
+  const random = createSeededRandom(`${seed}:${config.deckId}:${unit}`)
+  return { ...createQuiz(config, unit, now, random), seed, unit }
+}
+
+export function createQuizFromLink(link: ChallengeLink, now: number = Date.now()): QuizSession {
+  const config = { ...DEFAULT_QUIZ_CONFIG, length: link.length, deckId: link.deckId }
+  return { ...createSeededQuiz(config, link.unit, link.seed, now), challengerScore: link.score }
+}
+
+export function getChallengeLink(session: QuizSession): ChallengeLink | null {
+  if (session.seed === undefined || session.unit === undefined) return null
+  return {
+    seed: session.seed,
+    deckId: session.config.deckId,
+    length: session.questions.length,
+    unit: session.unit,
+    score: session.finishedAt && session.answers.length === session.questions.length
+      ? summarizeQuiz(session).score
+      : undefined
+  }
+}
+
+export function createQuizFromQuestions(
+  config: QuizConfig,
+  questions: PracticeQuestion[],
+  now: number = Date.now()
+): QuizSession {
+  return {
+    id: `${now}-${Math.random().toString(36).slice(2, 8)}`,
+    config: { ...config, length: questions.length },
+    questions,
+    answers: [],
+    startedAt: now
+  }
+}
+
+export function getCurrentQuestion(session: QuizSession): PracticeQuestion | undefined {
+  return session.questions[session.answers.length]
+}
+
+export function recordQuizAnswer(session: QuizSession, answer: QuizAnswer, now: number = Date.now()): QuizSession {
+  const answers = [...session.answers, answer]
+  const finishedAt = answers.length >= session.questions.length ? now : undefined
+  return { ...session, answers, finishedAt }
+}
+
+export function summarizeQuiz(session: QuizSession): QuizReport {
+  const score = session.answers.filter(answer => answer.isCorrect).length
+  const total = session.questions.length
+  return {
+    score,
+    total,
+    accuracy: total > 0 ? score / total : 0,
+    durationMs: (session.finishedAt ?? Date.now()) - session.startedAt,
+    missed: session.answers.filter(answer => !answer.isCorrect)
+  }
+}
+
+export function archiveSession(archive: QuizSession[], session: QuizSession): QuizSession[] {
+  return [session, ...archive.filter(archived => archived.id !== session.id)].slice(0, MAX_ARCHIVED_SESSIONS)
+}
@@ -0,0 +1,33 @@
+export type Random = () => number
+
+// mulberry32: small, fast and good enough to shuffle a worksheet. The same
+// seed always yields the same sequence.
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// Seeds are typed by people, so any text works; numbers hash like any other
+// string and "42" always means the same worksheet.
+export function hashSeed(seed: string): number {
+  let hash = 2166136261
+  for (const char of seed.trim().toLowerCase()) {
+    hash ^= char.codePointAt(0) ?? 0
+    hash = Math.imul(hash, 16777619)
+  }
+  return hash >>> 0
+}
+
+export function createSeededRandom(seed: string): Random {
+  return createRandom(hashSeed(seed))
+}
+
+export function generateSeed(random: Random = Math.random): string {
+  return String(Math.floor(random() * 900000) + 100000)
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest'
+import { BOX_INTERVALS, MAX_BOX, Schedule, getDueCount, isDue, reviewCard } from '@/lib/scheduler'
+
+const card = { func: 'sin', angle: 30 }
+const NOW = 1_000_000
+
+describe('reviewCard', () => {
+  const schedule = reviewCard(reviewCard({}, card, 'correct', 0), card, 'correct', 0)
+
+  it('moves a card up a box on a correct answer', () => {
+    expect(reviewCard(schedule, card, 'correct', NOW)['sin-30']).toMatchObject({ box: 3, due: NOW + BOX_INTERVALS[3], lapses: 0 })
+  })
+
+  it('holds a card in its box on a hinted answer without counting a lapse', () => {
+    expect(reviewCard(schedule, card, 'hinted', NOW)['sin-30']).toMatchObject({ box: 2, due: NOW + BOX_INTERVALS[2], reviews: 3, lapses: 0 })
+  })
+
+  it('starts a new card in box 0 when it is first answered with a hint', () => {
+    expect(reviewCard({}, card, 'hinted', NOW)['sin-30']).toMatchObject({ box: 0, lapses: 0 })
+  })
+
+  it('sends a card back to box 0 on a miss', () => {
+    expect(reviewCard(schedule, card, 'wrong', NOW)['sin-30']).toMatchObject({ box: 0, due: NOW, lapses: 1 })
+  })
+})
+
+describe('Leitner boxes', () => {
+  it('climbs one box per correct answer and stays in the last one', () => {
+    let current: Schedule = {}
+    const boxes: number[] = []
+    for (let i = 0; i < MAX_BOX + 2; i++) {
+      current = reviewCard(current, card, 'correct', NOW)
+      boxes.push(current['sin-30'].box)
+    }
+    expect(boxes).toEqual([1, 2, 3, 4, 5, 5, 5])
+    expect(current['sin-30']).toMatchObject({ due: NOW + BOX_INTERVALS[MAX_BOX], reviews: MAX_BOX + 2, lapses: 0 })
+  })
+
+  it('starts over from box 1 after a miss', () => {
+    const missed = reviewCard(inBox(3), card, 'wrong', NOW)
+    expect(reviewCard(missed, card, 'correct', NOW)['sin-30']).toMatchObject({ box: 1, due: NOW + BOX_INTERVALS[1], lapses: 1 })
+  })
+
+  it('keys triangle and composite cards apart from value cards', () => {
+    const triangle = reviewCard({}, { ...card, kind: 'triangle' }, 'correct', NOW)
+    const composite = reviewCard(triangle, { ...card, kind: 'composite', form: 'double' }, 'wrong', NOW)
+    expect(Object.keys(composite).sort()).toEqual(['composite-double-sin-30', 'triangle-sin-30'])
+  })
+})
+
+describe('isDue and getDueCount', () => {
+  it('counts a card as due once its interval has passed', () => {
+    const current = inBox(2)
+    expect(isDue(current['sin-30'], NOW + BOX_INTERVALS[2] - 1)).toBe(false)
+    expect(isDue(current['sin-30'], NOW + BOX_INTERVALS[2])).toBe(true)
+  })
+
+  it('counts only the cards that are due', () => {
+    const current = reviewCard(reviewCard(inBox(2), { func: 'cos', angle: 60 }, 'wrong', NOW), { func: 'tan', angle: 45 }, 'correct', NOW)
+    expect(getDueCount(current, NOW)).toBe(1)
+    expect(getDueCount(current, NOW + BOX_INTERVALS[1])).toBe(2)
+    expect(getDueCount(current, NOW + BOX_INTERVALS[2])).toBe(3)
+  })
+})
+
+function inBox(box: number): Schedule {
+  let current: Schedule = {}
+  for (let i = 0; i < box; i++) current = reviewCard(current, card, 'correct', NOW)
+  return current
+}
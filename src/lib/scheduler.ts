@@ -0,0 +1,102 @@
+export interface CardState {
+  box: number
+  due: number
+  lastReviewed: number
+  reviews: number
+  lapses: number
+}
+
+export type Schedule = Record<string, CardState>
+
+export type ReviewOutcome = 'correct' | 'hinted' | 'wrong'
+
+export interface CardIdentity {
+  kind?: string
+  form?: string
+  func: string
+  angle: number
+}
+
+const MINUTE = 60 * 1000
+const HOUR = 60 * MINUTE
+const DAY = 24 * HOUR
+
+// Leitner boxes: a correct answer moves a card up one box and pushes its next
+// review further out; a miss sends it back to box 0, due right away. A
+// correct answer after a hint holds the card in its box, since the learner
+// needed help but did not get it wrong.
+export const BOX_INTERVALS = [0, 5 * MINUTE, HOUR, DAY, 3 * DAY, 7 * DAY]
+export const MAX_BOX = BOX_INTERVALS.length - 1
+
+const REVIEW_PROBABILITY = 0.7
+
+// Triangle and expression questions share a function and angle with value
+// questions but are reviewed as cards of their own.
+export function getCardKey(question: CardIdentity): string {
+  const key = `${question.func}-${question.angle}`
+  if (question.kind === 'composite') return `composite-${question.form}-${key}`
+  return question.kind === 'triangle' ? `triangle-${key}` : key
+}
+
+export function reviewCard(
+  schedule: Schedule,
+  question: CardIdentity,
+  outcome: ReviewOutcome,
+  now: number = Date.now()
+): Schedule {
+  const key = getCardKey(question)
+  const card = schedule[key]
+  const box = outcome === 'correct' ? Math.min((card ? card.box + 1 : 1), MAX_BOX)
+    : outcome === 'hinted' ? (card?.box ?? 0)
+    : 0
+
+  return {
+    ...schedule,
+    [key]: {
+      box,
+      due: now + BOX_INTERVALS[box],
+      lastReviewed: now,
+      reviews: (card?.reviews ?? 0) + 1,
+      lapses: (card?.lapses ?? 0) + (outcome === 'wrong' ? 1 : 0)
+    }
+  }
+}
+
+export function isDue(card: CardState, now: number = Date.now()): boolean {
+  return card.due <= now
+}
+
+export function getDueCount(schedule: Schedule, now: number = Date.now()): number {
+  return Object.values(schedule).filter(card => isDue(card, now)).length
+}
+
+// Picks the next card: usually a due review (lower boxes weighted heavier),
+// otherwise a card not seen yet, and when neither exists the card whose review
+// comes up soonest.
+export function pickCard<T extends CardIdentity>(
+  cards: T[],
+  schedule: Schedule,
+  now: number = Date.now(),
+  random: () => number = Math.random
+): T {
+  const due = cards.filter(card => schedule[getCardKey(card)] && isDue(schedule[getCardKey(card)], now))
+  const fresh = cards.filter(card => !schedule[getCardKey(card)])
+
+  if (due.length > 0 && (fresh.length === 0 || random() < REVIEW_PROBABILITY)) {
+    const weights = due.map(card => MAX_BOX + 1 - schedule[getCardKey(card)].box)
+    let target = random() * weights.reduce((sum, weight) => sum + weight, 0)
+    for (let i = 0; i < due.length; i++) {
+      target -= weights[i]
+      if (target < 0) return due[i]
+    }
+    return due[due.length - 1]
+  }
+
+  if (fresh.length > 0) {
+    return fresh[Math.floor(random() * fresh.length)]
+  }
+
+  return cards.reduce((soonest, card) =>
+    schedule[getCardKey(card)].due < schedule[getCardKey(soonest)].due ? card : soonest
+  )
+}
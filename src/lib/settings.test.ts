@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_SETTINGS, changeGrading, resolveSettings } from '@/lib/settings'
+
+describe('changeGrading', () => {
+  it('restores the previous precision when decimals are turned back on', () => {
+    const precise = resolveSettings({ grading: { mode: 'decimal', significantFigures: 5 } })
+    const exact = resolveSettings({ ...precise, ...changeGrading(precise, false) })
+    expect(exact.grading).toEqual({ mode: 'exact' })
+    expect(changeGrading(exact, true).grading).toEqual({ mode: 'decimal', significantFigures: 5 })
+  })
+
+  it('falls back to the default precision for settings saved without one', () => {
+    const exact = resolveSettings({ grading: { mode: 'exact' } })
+    expect(changeGrading(exact, true).grading).toEqual(DEFAULT_SETTINGS.grading)
+  })
+})
@@ -0,0 +1,80 @@
+import { Angle, TrigFunction, UnitSetting, GradingPolicy, DEFAULT_GRADING_POLICY, FUNCTIONS, ANGLES } from '@/lib/trig'
+import { PracticeMode, PracticeOptions } from '@/lib/questions'
+import { Deck } from '@/lib/decks'
+import { DEFAULT_DAILY_GOAL } from '@/lib/daily'
+
+export type InputMode = 'type' | 'select'
+
+export interface Settings {
+  unit: UnitSetting
+  mode: PracticeMode
+  grading: GradingPolicy
+  // The decimal precision to return to after exact grading.
+  significantFigures: number
+  functions: TrigFunction[]
+  angles: Angle[]
+  inputMode: InputMode
+  nextQuestionDelayMs: number
+  dailyGoal: number
+  historyLimit: number
+}
+
+export const NEXT_QUESTION_DELAYS_MS = [500, 1000, 1500, 2500, 4000]
+export const HISTORY_LIMITS = [250, 500, 1000, 2500, 5000]
+
+export const DEFAULT_SETTINGS: Settings = {
+  unit: 'degrees',
+  mode: 'values',
+  grading: DEFAULT_GRADING_POLICY,
+  significantFigures: 3,
+  functions: FUNCTIONS,
+  angles: ANGLES,
+  inputMode: 'select',
+  nextQuestionDelayMs: 1500,
+  dailyGoal: DEFAULT_DAILY_GOAL,
+  historyLimit: 1000
+}
+
+// Settings saved before a field existed are missing it, so always read
+// through the defaults.
+export function resolveSettings(settings?: Partial<Settings>): Settings {
+  return { ...DEFAULT_SETTINGS, ...settings }
+}
+
+// Leaving decimal grading remembers its precision, and turning it back on
+// restores that precision.
+export function changeGrading(settings: Settings, acceptDecimals: boolean): Partial<Settings> {
+  if (acceptDecimals) {
+    return { grading: { mode: 'decimal', significantFigures: settings.significantFigures } }
+  }
+  return settings.grading.mode === 'decimal'
+    ? { grading: { mode: 'exact' }, significantFigures: settings.grading.significantFigures }
+    : { grading: { mode: 'exact' } }
+}
+
+export function getPracticeOptions(settings: Settings): PracticeOptions {
+  return {
+    unit: settings.unit,
+    mode: settings.mode,
+    functions: settings.functions,
+    angles: settings.angles
+  }
+}
+
+export function applyPreset(deck: Deck): Partial<Settings> {
+  return {
+    mode: deck.mode,
+    functions: deck.functions.length > 0 ? deck.functions : FUNCTIONS,
+    angles: deck.angles.length > 0 ? deck.angles : ANGLES
+  }
+}
+
+function sameMembers<T>(a: T[], b: T[]): boolean {
+  return a.length === b.length && a.every(item => b.includes(item))
+}
+
+export function matchesPreset(settings: Settings, deck: Deck): boolean {
+  if (settings.mode !== deck.mode) return false
+  if (deck.mode !== 'values' && deck.mode !== 'mixed') return true
+  return sameMembers(settings.functions, deck.functions) && sameMembers(settings.angles, deck.angles)
+}
@@ -0,0 +1,236 @@
+import {
+  Angle,
+  AngleUnit,
+  GradingPolicy,
+  DEFAULT_GRADING_POLICY,
+  checkValue,
+  formatAngle,
+  gcd,
+  getCorrectAnswers,
+  isUndefinedAnswer,
+  parseAngle,
+} from '@/lib/trig'
+import type { GradeResult } from '@/lib/questions'
+import { ExpressionError, parseExpression, evaluateExpression } from '@/lib/expression'
+import { Schedule, pickCard } from '@/lib/scheduler'
+import { Random } from '@/lib/random'
+import { explainNearMiss, swapRadicals } from '@/lib/mistakes'
+
+export type TriangleFunction = 'sin' | 'cos' | 'tan'
+export type TriangleSide = 'opposite' | 'adjacent' | 'hypotenuse'
+export type TriangleTarget = 'side' | 'angle'
+
+// A right triangle with the acute angle θ = `angle`. `func` is the ratio that
+// links the two sides in play and `given` is the one labelled with `length`;
+// every other length is derived from these. A side question asks for the
+// other side of the ratio, an angle question labels both sides and asks for θ.
+export interface TriangleQuestion {
+  kind: 'triangle'
+  func: TriangleFunction
+  angle: Angle
+  given: TriangleSide
+  length: number
+  target: TriangleTarget
+  unit: AngleUnit
+}
+
+export const TRIANGLE_FUNCTIONS: TriangleFunction[] = ['sin', 'cos', 'tan']
+export const TRIANGLE_ANGLES: Angle[] = [30, 45, 60]
+export const TRIANGLE_LENGTHS = [2, 3, 4, 5, 6, 8, 10, 12]
+export const TRIANGLE_SIDES: TriangleSide[] = ['opposite', 'adjacent', 'hypotenuse']
+
+const ANGLE_QUESTION_PROBABILITY = 0.25
+
+// Numerator and denominator of each ratio.
+export const RATIO_SIDES: Record<TriangleFunction, [TriangleSide, TriangleSide]> = {
+  sin: ['opposite', 'hypotenuse'],
+  cos: ['adjacent', 'hypotenuse'],
+  tan: ['opposite', 'adjacent'],
+}
+
+// Sides of the special triangles as [coefficient, root], i.e. coefficient × √root.
+const SPECIAL_SIDES: Record<number, Record<TriangleSide, [number, number]>> = {
+  30: { opposite: [1, 1], adjacent: [1, 3], hypotenuse: [2, 1] },
+  45: { opposite: [1, 1], adjacent: [1, 1], hypotenuse: [1, 2] },
+  60: { opposite: [1, 3], adjacent: [1, 1], hypotenuse: [2, 1] },
+}
+
+interface Surd {
+  numerator: number
+  denominator: number
+  root: number
+}
+
+function largestSquareFactor(value: number): number {
+  let factor = 1
+  for (let i = 2; i * i <= value; i++) {
+    if (value % (i * i) === 0) factor = i
+  }
+  return factor
+}
+
+// length × (c√r) / (c'√r') = (length · c) / (c' · r') × √(r · r'), with the
+// root and the fraction both reduced.
+function getSurd(question: TriangleQuestion, side: TriangleSide): Surd {
+  const [givenCoefficient, givenRoot] = SPECIAL_SIDES[question.angle][question.given]
+  const [coefficient, root] = SPECIAL_SIDES[question.angle][side]
+  const product = root * givenRoot
+  const square = largestSquareFactor(product)
+  const numerator = question.length * coefficient * square
+  const denominator = givenCoefficient * givenRoot
+  const divisor = gcd(numerator, denominator)
+  return { numerator: numerator / divisor, denominator: denominator / divisor, root: product / (square * square) }
+}
+
+export function getSideLength(question: TriangleQuestion, side: TriangleSide): string {
+  const { numerator, denominator, root } = getSurd(question, side)
+  const coefficient = numerator === 1 && root > 1 ? '' : String(numerator)
+  return `${coefficient}${root > 1 ? `√${root}` : ''}${denominator > 1 ? `/${denominator}` : ''}`
+}
+
+export function getSideValue(question: TriangleQuestion, side: TriangleSide): number {
+  const { numerator, denominator, root } = getSurd(question, side)
+  return (numerator / denominator) * Math.sqrt(root)
+}
+
+export function getUnknownSide(question: Pick<TriangleQuestion, 'func' | 'given'>): TriangleSide {
+  const [numerator, denominator] = RATIO_SIDES[question.func]
+  return question.given === numerator ? denominator : numerator
+}
+
+// The side that plays no part in the question's ratio.
+export function getUnusedSide(question: Pick<TriangleQuestion, 'func'>): TriangleSide {
+  return TRIANGLE_SIDES.find(side => !RATIO_SIDES[question.func].includes(side))!
+}
+
+function describeSide(side: TriangleSide): string {
+  return side === 'hypotenuse' ? side : `${side} side`
+}
+
+export function formatTriangleQuestion(question: TriangleQuestion): string {
+  if (question.target === 'angle') {
+    const [first, second] = RATIO_SIDES[question.func]
+    const unit = question.unit === 'radians' ? ' in radians' : ''
+    return `${first} ${getSideLength(question, first)}, ${second} ${getSideLength(question, second)}, find the angle${unit}`
+  }
+  return `${question.given} ${question.length}, angle ${formatAngle(question.angle, question.unit)}, find the ${describeSide(getUnknownSide(question))}`
+}
+
+export function getTriangleAnswer(question: TriangleQuestion): string {
+  return question.target === 'angle'
+    ? formatAngle(question.angle, question.unit)
+    : getSideLength(question, getUnknownSide(question))
+}
+
+export function generateTriangleQuestion(
+  previousQuestion: TriangleQuestion | undefined,
+  unit: AngleUnit,
+  schedule?: Schedule,
+  random: Random = Math.random
+): TriangleQuestion {
+  const cards = TRIANGLE_FUNCTIONS.flatMap(func => TRIANGLE_ANGLES.map(angle => ({ kind: 'triangle' as const, func, angle })))
+    .filter(card =>
+      !previousQuestion ||
+      card.func !== previousQuestion.func ||
+      card.angle !== previousQuestion.angle
+    )
+
+  const card = schedule
+    ? pickCard(cards, schedule, Date.now(), random)
+    : cards[Math.floor(random() * cards.length)]
+
+  return {
+    ...card,
+    given: RATIO_SIDES[card.func][random() < 0.5 ? 0 : 1],
+    length: TRIANGLE_LENGTHS[Math.floor(random() * TRIANGLE_LENGTHS.length)],
+    target: random() < ANGLE_QUESTION_PROBABILITY ? 'angle' : 'side',
+    unit
+  }
+}
+
+function sameValue(a: number, b: number): boolean {
+  return Math.abs(a - b) < 1e-6 * Math.max(1, Math.abs(b))
+}
+
+function describeRatio(question: TriangleQuestion): string {
+  const [numerator, denominator] = RATIO_SIDES[question.func]
+  return `${question.func} θ = ${numerator} / ${denominator}`
+}
+
+function checkTriangleAngle(question: TriangleQuestion, userAnswer: string): GradeResult {
+  const angle = parseAngle(userAnswer, question.unit)
+  if (angle === null) {
+    throw new ExpressionError('Enter an angle such as 30°, 45 or π/3', 0)
+  }
+  if (Math.abs(angle - question.angle) < 1e-6) {
+    return { isCorrect: true }
+  }
+  if (Math.abs(angle - (90 - question.angle)) < 1e-6) {
+    const ratio = getCorrectAnswers({ func: question.func, angle: question.angle })[0]
+    return {
+      isCorrect: false,
+      mistake: 'cofunction',
+      explanation: `That's the other acute angle. θ is the angle these sides are measured from: ${describeRatio(question)} = ${ratio}, so θ = ${getTriangleAnswer(question)}.`
+    }
+  }
+  return { isCorrect: false, mistake: 'other' }
+}
+
+// Side answers are graded by value exactly like `checkAnswer`, so 5√3, 15/√3
+// and, when the policy allows decimals, 8.66 all count. Throws ExpressionError
+// when the answer cannot be read.
+export function checkTriangleAnswer(
+  question: TriangleQuestion,
+  userAnswer: string,
+  policy: GradingPolicy = DEFAULT_GRADING_POLICY
+): GradeResult {
+  if (question.target === 'angle') {
+    return checkTriangleAngle(question, userAnswer)
+  }
+  if (isUndefinedAnswer(userAnswer)) {
+    return { isCorrect: false, mistake: 'other' }
+  }
+
+  const unknown = getUnknownSide(question)
+  const expected = getSideValue(question, unknown)
+  if (checkValue(expected, userAnswer, policy)) {
+    return { isCorrect: true }
+  }
+
+  const value = evaluateExpression(parseExpression(userAnswer))
+  const answer = getTriangleAnswer(question)
+  const nearMiss = explainNearMiss(userAnswer, value, expected, answer, policy, 'length')
+  if (nearMiss) {
+    return { isCorrect: false, mistake: 'other', explanation: nearMiss }
+  }
+
+  const unused = getUnusedSide(question)
+  if (sameValue(value, getSideValue(question, unused))) {
+    return {
+      isCorrect: false,
+      mistake: 'cofunction',
+      explanation: `That's the ${describeSide(unused)}. The ${unknown} and the ${question.given} are linked by ${describeRatio(question)}.`
+    }
+  }
+
+  if (sameValue(value, (question.length * question.length) / expected)) {
+    return {
+      isCorrect: false,
+      mistake: 'reciprocal',
+      explanation: `That uses the ratio upside down: ${describeRatio(question)}, so the ${unknown} is ${answer}.`
+    }
+  }
+
+  const swapped = swapRadicals(answer)
+  if (swapped !== answer && sameValue(value, evaluateExpression(parseExpression(swapped)))) {
+    return {
+      isCorrect: false,
+      mistake: 'radical',
+      explanation: question.angle === 45
+        ? 'The 45-45-90 triangle has sides 1, 1, √2; √3 belongs to the 30-60-90 triangle.'
+        : 'The 30-60-90 triangle has sides 1, √3, 2; √2 belongs to the 45-45-90 triangle.'
+    }
+  }
+
+  return { isCorrect: false, mistake: 'other' }
+}
@@ -0,0 +1,246 @@
+import { parseExpression, evaluateExpression, isExactForm } from '@/lib/expression'
+import { Schedule, pickCard } from '@/lib/scheduler'
+import { Random } from '@/lib/random'
+
+export type TrigFunction = 'sin' | 'cos' | 'tan' | 'csc' | 'sec' | 'cot'
+export type Angle = number
+export type AngleUnit = 'degrees' | 'radians'
+export type UnitSetting = AngleUnit | 'mixed'
+
+export interface Question {
+  kind?: 'value'
+  func: TrigFunction
+  angle: Angle
+  // Questions saved before radian mode have no unit and were asked in degrees.
+  unit?: AngleUnit
+}
+
+export interface QuestionOptions {
+  unit?: UnitSetting
+  schedule?: Schedule
+  functions?: TrigFunction[]
+  angles?: Angle[]
+  random?: Random
+}
+
+export const FUNCTIONS: TrigFunction[] = ['sin', 'cos', 'tan', 'csc', 'sec', 'cot']
+
+export const QUADRANT_ANGLES: Angle[] = [
+  0, 30, 45, 60, 90, 120, 135, 150, 180, 210, 225, 240, 270, 300, 315, 330, 360
+]
+export const NEGATIVE_ANGLES: Angle[] = [-30, -45, -60, -90, -120, -135, -150, -180]
+export const COTERMINAL_ANGLES: Angle[] = [390, 405, 420, 450, 540, 720]
+
+export const ANGLES: Angle[] = [...QUADRANT_ANGLES, ...NEGATIVE_ANGLES, ...COTERMINAL_ANGLES]
+
+export const UNDEFINED_ANSWERS = ['undefined', 'DNE', '∞']
+
+// Values for the reference angles only; every other angle is derived from
+// these through its reference angle and the sign of its quadrant.
+export const CORRECT_ANSWERS: Record<string, string[]> = {
+  'sin-0': ['0', '0.0'],
+  'sin-30': ['1/2', '0.5', '.5'],
+  'sin-45': ['√2/2', '0.707', '0.7071', '1/√2', 'sqrt(2)/2'],
+  'sin-60': ['√3/2', '0.866', '0.8660', 'sqrt(3)/2'],
+  'sin-90': ['1', '1.0'],
+  'cos-0': ['1', '1.0'],
+  'cos-30': ['√3/2', '0.866', '0.8660', 'sqrt(3)/2'],
+  'cos-45': ['√2/2', '0.707', '0.7071', '1/√2', 'sqrt(2)/2'],
+  'cos-60': ['1/2', '0.5', '.5'],
+  'cos-90': ['0', '0.0'],
+  'tan-0': ['0', '0.0'],
+  'tan-30': ['√3/3', '0.577', '0.5773', '1/√3', 'sqrt(3)/3'],
+  'tan-45': ['1', '1.0'],
+  'tan-60': ['√3', '1.732', '1.7320', 'sqrt(3)'],
+  'tan-90': UNDEFINED_ANSWERS,
+  'csc-0': UNDEFINED_ANSWERS,
+  'csc-30': ['2', '2.0'],
+  'csc-45': ['√2', '1.414', '1.4142', '2/√2', 'sqrt(2)'],
+  'csc-60': ['2√3/3', '1.155', '1.1547', '2/√3', '2sqrt(3)/3'],
+  'csc-90': ['1', '1.0'],
+  'sec-0': ['1', '1.0'],
+  'sec-30': ['2√3/3', '1.155', '1.1547', '2/√3', '2sqrt(3)/3'],
+  'sec-45': ['√2', '1.414', '1.4142', '2/√2', 'sqrt(2)'],
+  'sec-60': ['2', '2.0'],
+  'sec-90': UNDEFINED_ANSWERS,
+  'cot-0': UNDEFINED_ANSWERS,
+  'cot-30': ['√3', '1.732', '1.7320', 'sqrt(3)'],
+  'cot-45': ['1', '1.0'],
+  'cot-60': ['√3/3', '0.577', '0.5773', '1/√3', 'sqrt(3)/3'],
+  'cot-90': ['0', '0.0'],
+}
+
+export function normalizeAngle(angle: Angle): Angle {
+  return ((angle % 360) + 360) % 360
+}
+
+export function getReferenceAngle(angle: Angle): Angle {
+  const normalized = normalizeAngle(angle)
+  if (normalized <= 90) return normalized
+  if (normalized <= 180) return 180 - normalized
+  if (normalized <= 270) return normalized - 180
+  return 360 - normalized
+}
+
+export function getQuadrantSign(func: TrigFunction, angle: Angle): 1 | -1 {
+  const normalized = normalizeAngle(angle)
+  switch (func) {
+    case 'sin':
+    case 'csc':
+      return normalized <= 180 ? 1 : -1
+    case 'cos':
+    case 'sec':
+      return normalized <= 90 || normalized >= 270 ? 1 : -1
+    case 'tan':
+    case 'cot':
+      return normalized <= 90 || (normalized >= 180 && normalized <= 270) ? 1 : -1
+  }
+}
+
+export function gcd(a: number, b: number): number {
+  return b === 0 ? Math.abs(a) : gcd(b, a % b)
+}
+
+export function formatAngle(angle: Angle, unit: AngleUnit = 'degrees'): string {
+  const sign = angle < 0 ? '−' : ''
+  if (unit === 'degrees') return `${sign}${Math.abs(angle)}°`
+  if (angle === 0) return '0'
+  if (!Number.isInteger(angle)) return ((angle * Math.PI) / 180).toFixed(4).replace('-', '−')
+
+  const divisor = gcd(angle, 180)
+  const numerator = Math.abs(angle) / divisor
+  const denominator = 180 / divisor
+  return `${sign}${numerator === 1 ? '' : numerator}π${denominator === 1 ? '' : `/${denominator}`}`
+}
+
+export function formatQuestion(question: Question): string {
+  return `${question.func}(${formatAngle(question.angle, question.unit)})`
+}
+
+// Reads an angle typed in either unit and returns it in degrees. Anything with
+// π, "pi" or "rad" is radians, anything with ° or "deg" is degrees, and a bare
+// number falls back to `unit`.
+export function parseAngle(input: string, unit: AngleUnit = 'degrees'): Angle | null {
+  const normalized = input
+    .trim()
+    .toLowerCase()
+    .replace(/\s/g, '')
+    .replace(/−/g, '-')
+    .replace(/pi/g, 'π')
+
+  const piMatch = normalized.match(/^([+-])?(\d*\.?\d*)\*?π(?:\/(\d*\.?\d+))?(?:rad)?$/)
+  if (piMatch) {
+    const [, sign, coefficient, denominator] = piMatch
+    const value = (coefficient ? parseFloat(coefficient) : 1) / (denominator ? parseFloat(denominator) : 1)
+    if (!isFinite(value)) return null
+    return roundAngle((sign === '-' ? -value : value) * 180)
+  }
+
+  const numberMatch = normalized.match(/^([+-]?(?:\d+\.?\d*|\.\d+))(°|deg|degrees|rad|radians)?$/)
+  if (!numberMatch) return null
+
+  const value = parseFloat(numberMatch[1])
+  const suffix = numberMatch[2]
+  const isRadians = suffix ? suffix.startsWith('rad') : unit === 'radians'
+  return roundAngle(isRadians ? (value * 180) / Math.PI : value)
+}
+
+function roundAngle(angle: Angle): Angle {
+  return Math.round(angle * 1e6) / 1e6
+}
+
+export function isUndefinedValue(question: Question): boolean {
+  return CORRECT_ANSWERS[`${question.func}-${getReferenceAngle(question.angle)}`] === UNDEFINED_ANSWERS
+}
+
+export function getCorrectAnswers(question: Question): string[] {
+  const answers = CORRECT_ANSWERS[`${question.func}-${getReferenceAngle(question.angle)}`]
+  if (
+    answers === UNDEFINED_ANSWERS ||
+    answers[0] === '0' ||
+    getQuadrantSign(question.func, question.angle) > 0
+  ) {
+    return answers
+  }
+  return answers.map(answer => `-${answer}`)
+}
+
+export function pickUnit(setting: UnitSetting, random: Random = Math.random): AngleUnit {
+  if (setting !== 'mixed') return setting
+  return random() < 0.5 ? 'degrees' : 'radians'
+}
+
+export function generateQuestion(previousQuestion?: Question, options: QuestionOptions = {}): Question {
+  const unit = options.unit ?? 'degrees'
+  const random = options.random ?? Math.random
+  const functions = options.functions?.length ? options.functions : FUNCTIONS
+  const angles = options.angles?.length ? options.angles : ANGLES
+  const deck = functions.flatMap(func => angles.map(angle => ({ func, angle })))
+  const withoutRepeat = deck.filter(card =>
+    !previousQuestion ||
+    card.func !== previousQuestion.func ||
+    card.angle !== previousQuestion.angle
+  )
+  const cards = withoutRepeat.length > 0 ? withoutRepeat : deck
+
+  const card = options.schedule
+    ? pickCard(cards, options.schedule, Date.now(), random)
+    : cards[Math.floor(random() * cards.length)]
+
+  return { ...card, unit: pickUnit(unit, random) }
+}
+
+export type GradingPolicy =
+  | { mode: 'exact' }
+  | { mode: 'decimal'; significantFigures: number }
+
+export const DEFAULT_GRADING_POLICY: GradingPolicy = { mode: 'decimal', significantFigures: 3 }
+
+function normalizeAnswer(answer: string): string {
+  return answer.trim().toLowerCase().replace(/\s/g, '').replace(/−/g, '-')
+}
+
+export function isUndefinedAnswer(answer: string): boolean {
+  const normalized = normalizeAnswer(answer)
+  return UNDEFINED_ANSWERS.some(undefinedAnswer => normalizeAnswer(undefinedAnswer) === normalized)
+}
+
+export function getCorrectValue(question: Question): number {
+  return evaluateExpression(parseExpression(getCorrectAnswers(question)[0]))
+}
+
+function matchesSignificantFigures(value: number, expected: number, significantFigures: number): boolean {
+  const magnitude = expected === 0 ? 0 : Math.floor(Math.log10(Math.abs(expected)))
+  return Math.abs(value - expected) <= 0.5 * Math.pow(10, magnitude - significantFigures + 1)
+}
+
+// Grades a typed or selected answer by value. Exact forms (no decimal point)
+// must match exactly; decimals are accepted only when the policy allows them
+// and they agree with the true value to the policy's significant figures.
+// Throws ExpressionError when the answer cannot be read.
+export function checkAnswer(
+  question: Question,
+  userAnswer: string,
+  policy: GradingPolicy = DEFAULT_GRADING_POLICY
+): boolean {
+  if (isUndefinedValue(question)) return isUndefinedAnswer(userAnswer)
+  if (isUndefinedAnswer(userAnswer)) return false
+  return checkValue(getCorrectValue(question), userAnswer, policy)
+}
+
+// The by-value half of `checkAnswer`, for any question with a numeric answer.
+// Throws ExpressionError when the answer cannot be read.
+export function checkValue(
+  expected: number,
+  userAnswer: string,
+  policy: GradingPolicy = DEFAULT_GRADING_POLICY
+): boolean {
+  const expression = parseExpression(userAnswer)
+  const value = evaluateExpression(expression)
+  if (!isFinite(value)) return false
+
+  if (isExactForm(expression)) {
+    return Math.abs(value - expected) < 1e-9 * Math.max(1, Math.abs(expected))
+  }
+  return policy.mode === 'decimal' && matchesSignificantFigures(value, expected, policy.significantFigures)
+}
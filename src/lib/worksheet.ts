@@ -0,0 +1,30 @@
+import { UnitSetting } from '@/lib/trig'
+import { PracticeQuestion, getCanonicalAnswer } from '@/lib/questions'
+import { generateDeckQuestions } from '@/lib/decks'
+import { createSeededRandom } from '@/lib/random'
+
+export interface WorksheetConfig {
+  deckId: string
+  count: number
+  seed: string
+  unit: UnitSetting
+}
+
+export interface WorksheetItem {
+  number: number
+  question: PracticeQuestion
+  answer: string
+}
+
+export const WORKSHEET_COUNTS = [10, 20, 30, 40]
+
+// Everything is derived from the config, so reprinting a config reproduces
+// the worksheet exactly.
+export function createWorksheet(config: WorksheetConfig): WorksheetItem[] {
+  const random = createSeededRandom(`${config.seed}:${config.deckId}:${config.unit}`)
+  return generateDeckQuestions(config.deckId, config.count, config.unit, random).map((question, index) => ({
+    number: index + 1,
+    question,
+    answer: getCanonicalAnswer(question)
+  }))
+}
@@ -0,0 +1,19 @@
+import { HistoryEntry } from '@/lib/history'
+
+// A history entry for sin 30°, answered right or wrong at `timestamp`.
+export function historyEntry(
+  id: string,
+  timestamp: number,
+  isCorrect: boolean,
+  overrides: Partial<HistoryEntry> = {}
+): HistoryEntry {
+  return {
+    id,
+    question: { kind: 'value', func: 'sin', angle: 30, unit: 'degrees' },
+    userAnswer: isCorrect ? '1/2' : '√3/2',
+    correctAnswer: '1/2',
+    isCorrect,
+    timestamp,
+    ...overrides
+  }
+}